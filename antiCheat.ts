@@ -0,0 +1,52 @@
+import { GameplayResult } from './types'
+
+// Server-side sanity checks for submitted results. A non-empty list of flags
+// means the result is kept in history but left out of rankings until reviewed.
+
+export type ResultContext = {
+    // Time between startRound and finishGameplay, null if unknown
+    playTime: number | null
+}
+
+export const ANTI_CHEAT_LIMITS = {
+    maxArcadeScore: 1500000,
+    maxAccuracyScore: 1000000,
+    // Denser than any playable chart; shorter play times are not humanly possible
+    maxNotesPerSecond: 40,
+    minPlayTime: 5000
+}
+
+export function checkResult(result: GameplayResult, context: ResultContext): string[] {
+    const flags: string[] = []
+    const hits = result.perfect + result.great + result.good
+
+    if (hits + result.miss !== result.totalCount) {
+        flags.push('judgement_count_mismatch')
+    }
+    if (result.combo > hits) {
+        flags.push('combo_exceeds_hits')
+    }
+
+    if (result.grade === 'allPerfect' && result.perfect !== result.totalCount) {
+        flags.push('grade_mismatch')
+    } else if (result.grade === 'fullCombo' && (result.miss > 0 || result.combo !== result.totalCount)) {
+        flags.push('grade_mismatch')
+    }
+
+    if (result.arcadeScore > ANTI_CHEAT_LIMITS.maxArcadeScore) {
+        flags.push('arcade_score_out_of_range')
+    }
+    if (result.accuracyScore > ANTI_CHEAT_LIMITS.maxAccuracyScore) {
+        flags.push('accuracy_score_out_of_range')
+    }
+
+    if (context.playTime !== null) {
+        const minPlayTime = Math.max(
+            ANTI_CHEAT_LIMITS.minPlayTime,
+            result.totalCount / ANTI_CHEAT_LIMITS.maxNotesPerSecond * 1000
+        )
+        if (context.playTime < minPlayTime) flags.push('play_time_too_short')
+    }
+
+    return flags
+}
@@ -0,0 +1,219 @@
+import express from "express";
+import { resultsStore, isRanked, MatchRecord } from "./resultsStore";
+import { MatchQuery, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./matchStorage";
+
+// Read-only JSON API over resultsStore (for bots and stats sites)
+export const apiRouter = express.Router();
+
+const RECENT_MATCHES = 20;
+const DEFAULT_TOP_SCORES = 50;
+
+class BadRequest extends Error { }
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Принимает миллисекунды или ISO-дату
+function optionalDate(value: unknown, field: string) {
+  if (typeof value !== "string" || !value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) throw new BadRequest(`Invalid ${field}`);
+  return time;
+}
+
+function optionalInt(value: unknown, field: string, min: number, max: number) {
+  if (typeof value !== "string" || !value) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new BadRequest(`Invalid ${field}`);
+  }
+  return number;
+}
+
+// Последний матч на уровне. Без ?address= имя должно встречаться только на одном сервере
+function latestLevelMatch(filter: { levelName: string; levelAddress?: string; userId?: string }) {
+  const matches = resultsStore.findMatches(filter);
+  if (new Set(matches.map(match => match.level.address)).size > 1) {
+    throw new BadRequest("Level name exists on several servers, pass ?address=");
+  }
+  return matches[0] ?? null;
+}
+
+function levelTitle(match: MatchRecord) {
+  const rawLevel = match.level as any;
+  const rawTitle = rawLevel?.title;
+  return typeof rawTitle === "string"
+    ? rawTitle
+    : rawTitle?.en || rawTitle?.ru || rawLevel?.name || "Unknown Level";
+}
+
+// Результаты с флагами анти-чита наружу отдаются без самих флагов
+function publicMatch(match: MatchRecord) {
+  return {
+    ...match,
+    results: match.results.map(({ flags, ...r }) => ({ ...r, ranked: isRanked({ ...r, flags }) })),
+  };
+}
+
+function handle(handler: (req: express.Request, res: express.Response) => void) {
+  return (req: express.Request, res: express.Response) => {
+    try {
+      handler(req, res);
+    } catch (e) {
+      if (e instanceof BadRequest) return res.status(400).json({ message: e.message });
+      console.error("[API] Error:", e);
+      res.status(500).json({ message: "Internal error" });
+    }
+  };
+}
+
+// GET /api/matches?room=&level=&address=&player=&from=&to=&page=&limit=
+apiRouter.get("/matches", handle((req, res) => {
+  const limit = optionalInt(req.query.limit, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+  const page = optionalInt(req.query.page, "page", 0, Number.MAX_SAFE_INTEGER) ?? 0;
+  const query: MatchQuery = {
+    roomName: optionalString(req.query.room),
+    levelName: optionalString(req.query.level),
+    levelAddress: optionalString(req.query.address),
+    userId: optionalString(req.query.player),
+    from: optionalDate(req.query.from, "from"),
+    to: optionalDate(req.query.to, "to"),
+    offset: page * limit,
+    limit,
+  };
+
+  const result = resultsStore.queryMatches(query);
+  res.json({
+    matches: result.matches.map(publicMatch),
+    total: result.total,
+    page,
+    pageCount: Math.ceil(result.total / limit),
+    limit,
+  });
+}));
+
+apiRouter.get("/matches/:id", handle((req, res) => {
+  const match = resultsStore.getMatch(req.params.id);
+  if (!match) return res.status(404).json({ message: "Match not found" });
+  res.json({ match: publicMatch(match) });
+}));
+
+apiRouter.get("/players/:userId", handle((req, res) => {
+  const userId = req.params.userId;
+  const matches = resultsStore.findMatches({ userId });
+  if (matches.length === 0) return res.status(404).json({ message: "Player not found" });
+
+  let name = "Unknown";
+  let rankedCount = 0;
+  let totalAccuracy = 0;
+  let bestArcadeScore = 0;
+  const grades: Record<string, number> = { allPerfect: 0, fullCombo: 0, pass: 0, fail: 0 };
+
+  // Oldest first so the latest name wins
+  [...matches].reverse().forEach(match => {
+    const r = match.results.find(r => r.userId === userId);
+    if (!r) return;
+    name = r.userName || name;
+    if (!isRanked(r)) return;
+    rankedCount++;
+    totalAccuracy += r.result.accuracyScore;
+    bestArcadeScore = Math.max(bestArcadeScore, r.result.arcadeScore);
+    grades[r.result.grade] = (grades[r.result.grade] || 0) + 1;
+  });
+
+  const rating = resultsStore.getRating(userId);
+  res.json({
+    player: {
+      userId,
+      name,
+      rating: rating ? rating.rating : null,
+      matchCount: matches.length,
+      rankedMatchCount: rankedCount,
+      averageAccuracyScore: rankedCount > 0 ? Math.round(totalAccuracy / rankedCount) : null,
+      bestArcadeScore,
+      grades,
+    },
+    recentMatches: matches.slice(0, RECENT_MATCHES).map(publicMatch),
+    ratingHistory: resultsStore.getRatingHistory(userId),
+  });
+}));
+
+// Личные рекорды игрока на всех уровнях
+apiRouter.get("/players/:userId/bests", handle((req, res) => {
+  res.json({ bests: resultsStore.getPersonalBests(req.params.userId) });
+}));
+
+// История улучшения рекорда на одном уровне (?address= — сервер уровня)
+apiRouter.get("/players/:userId/bests/:levelName", handle((req, res) => {
+  const match = latestLevelMatch({
+    levelName: req.params.levelName,
+    levelAddress: optionalString(req.query.address),
+    userId: req.params.userId,
+  });
+  const history = match ? resultsStore.getPersonalBestHistory(req.params.userId, match.level) : [];
+  if (history.length === 0) return res.status(404).json({ message: "No results on this level" });
+  res.json({ best: history[history.length - 1], history });
+}));
+
+// GET /api/ratings?page=&limit=
+apiRouter.get("/ratings", handle((req, res) => {
+  const limit = optionalInt(req.query.limit, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+  const page = optionalInt(req.query.page, "page", 0, Number.MAX_SAFE_INTEGER) ?? 0;
+  const ratings = resultsStore.getRatings();
+  res.json({
+    ratings: ratings
+      .slice(page * limit, (page + 1) * limit)
+      .map((player, index) => ({ rank: page * limit + index + 1, ...player })),
+    total: ratings.length,
+    page,
+    pageCount: Math.ceil(ratings.length / limit),
+    limit,
+  });
+}));
+
+// GET /api/sets?room=&page=&limit=
+apiRouter.get("/sets", handle((req, res) => {
+  const limit = optionalInt(req.query.limit, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+  const page = optionalInt(req.query.page, "page", 0, Number.MAX_SAFE_INTEGER) ?? 0;
+  const sets = resultsStore.getSets(optionalString(req.query.room));
+  res.json({
+    sets: sets.slice(page * limit, (page + 1) * limit),
+    total: sets.length,
+    page,
+    pageCount: Math.ceil(sets.length / limit),
+    limit,
+  });
+}));
+
+// Сет вместе с его раундами
+apiRouter.get("/sets/:id", handle((req, res) => {
+  const set = resultsStore.getSet(req.params.id);
+  if (!set) return res.status(404).json({ message: "Set not found" });
+  const matches = set.matchIds
+    .map(id => resultsStore.getMatch(id))
+    .filter((match): match is MatchRecord => match !== null)
+    .map(publicMatch);
+  res.json({ set, matches });
+}));
+
+// Командные итоги по составу команды (GET /api/teams?room=)
+apiRouter.get("/teams", handle((req, res) => {
+  res.json({ teams: resultsStore.getTeamStandings(optionalString(req.query.room)) });
+}));
+
+// Лучший результат каждого игрока на уровне (?address= — сервер уровня)
+apiRouter.get("/levels/:levelName/top", handle((req, res) => {
+  const limit = optionalInt(req.query.limit, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_TOP_SCORES;
+  const match = latestLevelMatch({ levelName: req.params.levelName, levelAddress: optionalString(req.query.address) });
+  if (!match) return res.status(404).json({ message: "Level not found" });
+
+  const scores = resultsStore.getLevelLeaderboard(match.level)
+    .slice(0, limit)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+  res.json({
+    level: { ...match.level, title: levelTitle(match) },
+    scores,
+  });
+}));
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { JoinRejection } from './types';
+import { RedisLikeClient } from './roomBus';
+import { sharedRedis } from './redis';
+
+// Публичный ключ Sonolus для верификации (из документации)
+export const SONOLUS_PUBLIC_KEY: crypto.JsonWebKey = {
+    kty: "EC",
+    crv: "P-256",
+    x: "d2B14ZAn-zDsqY42rHofst8rw3XB90-a5lT80NFdXo0",
+    y: "Hxzi9DHrlJ4CVSJVRnydxFWBZAgkFxZXbyxPSa8SJQw",
+};
+
+// How far the signed `time` may drift from the server clock
+const MAX_CLOCK_SKEW = 60 * 1000;
+
+export function verifySonolusSignature(body: Buffer, signature: string, publicKey: crypto.JsonWebKey = SONOLUS_PUBLIC_KEY): boolean {
+    try {
+        const key = crypto.createPublicKey({
+            key: publicKey,
+            format: "jwk",
+        });
+        const verify = crypto.createVerify("sha256");
+        verify.update(body);
+        verify.end();
+        return verify.verify(key, signature, "base64");
+    } catch (e) {
+        console.error("[Security] Signature verification failed:", e);
+        return false;
+    }
+}
+
+export type VerifiedJoin = {
+    profile: any;
+}
+
+// Signatures of accepted join requests, kept until they could no longer pass the timestamp check
+export interface ReplayCache {
+    // False if the fingerprint was already used
+    add(fingerprint: string, expiresAt: number, now: number): Promise<boolean>;
+}
+
+export class MemoryReplayCache implements ReplayCache {
+    // signature hash -> time after which it can no longer pass the timestamp check
+    private seen = new Map<string, number>();
+
+    public async add(fingerprint: string, expiresAt: number, now: number) {
+        this.prune(now);
+        if (this.seen.has(fingerprint)) return false;
+        this.seen.set(fingerprint, expiresAt);
+        return true;
+    }
+
+    private prune(now: number) {
+        this.seen.forEach((expiresAt, fingerprint) => {
+            if (expiresAt < now) this.seen.delete(fingerprint);
+        });
+    }
+}
+
+// One key per signature, set only if missing and expired by Redis, so a join request
+// accepted by one node is refused by every other one
+export class RedisReplayCache implements ReplayCache {
+    constructor(private client: RedisLikeClient, private prefix = "sonolus:joins:") { }
+
+    public async add(fingerprint: string, expiresAt: number, now: number) {
+        const ttl = Math.max(1, expiresAt - now);
+        return await this.client.set(this.prefix + fingerprint, "1", "PX", ttl, "NX") === "OK";
+    }
+}
+
+// REDIS_URL shares used join requests between nodes, otherwise each node keeps its own
+function createReplayCache(): ReplayCache {
+    const redis = sharedRedis();
+    return redis ? new RedisReplayCache(redis) : new MemoryReplayCache();
+}
+
+// Checks a signed ServerJoinRoomRequest: signature, target room, timestamp and replays.
+// The key is injectable so a locally generated key pair can stand in for Sonolus.
+export class JoinRequestVerifier {
+    constructor(
+        private publicKey: crypto.JsonWebKey = SONOLUS_PUBLIC_KEY,
+        private maxClockSkew = MAX_CLOCK_SKEW,
+        private replays: ReplayCache = createReplayCache(),
+    ) { }
+
+    public async verify(rawBody: Buffer | undefined, signature: string | undefined, roomName: string, now = Date.now()): Promise<VerifiedJoin | JoinRejection> {
+        if (!rawBody || !signature) {
+            return { status: 401, message: "Missing signature" };
+        }
+        if (!verifySonolusSignature(rawBody, signature, this.publicKey)) {
+            return { status: 401, message: "Invalid signature" };
+        }
+
+        let body: any;
+        try {
+            body = JSON.parse(rawBody.toString());
+        } catch (e) {
+            return { status: 400, message: "Malformed join request" };
+        }
+
+        if (body.type !== "authenticateMultiplayer") {
+            return { status: 400, message: "Unexpected request type" };
+        }
+        if (body.room !== roomName) {
+            return { status: 403, message: "Join request was signed for another room" };
+        }
+        if (!body.userProfile || typeof body.userProfile.id !== "string") {
+            return { status: 400, message: "Missing user profile" };
+        }
+        if (typeof body.time !== "number" || Math.abs(now - body.time) > this.maxClockSkew) {
+            return { status: 401, message: "Join request expired" };
+        }
+
+        const fingerprint = crypto.createHash("sha256").update(signature).digest("hex");
+        if (!await this.replays.add(fingerprint, body.time + this.maxClockSkew, now)) {
+            return { status: 401, message: "Join request already used" };
+        }
+
+        return { profile: body.userProfile };
+    }
+}
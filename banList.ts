@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { ServiceUserId } from '@sonolus/core';
+import { RedisLikeClient } from './roomBus';
+import { sharedRedis } from './redis';
+
+const DATA_FILE = path.join(__dirname, 'bans.json');
+
+export type BanEntry = {
+    userId: ServiceUserId;
+    userName?: string;
+    reason: string;
+    createdAt: number;
+    // null for permanent bans
+    expiresAt: number | null;
+}
+
+export interface BanStorage {
+    get(userId: string): Promise<BanEntry | null>;
+    set(entry: BanEntry): Promise<void>;
+    // False if there was no entry
+    delete(userId: string): Promise<boolean>;
+    list(): Promise<BanEntry[]>;
+}
+
+// Keeps bans in a JSON file
+export class FileBanStorage implements BanStorage {
+    private bans = new Map<string, BanEntry>();
+
+    constructor(private file: string) {
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(this.file)) {
+            try {
+                const data: BanEntry[] = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+                this.bans = new Map(data.map(b => [b.userId, b]));
+            } catch (e) {
+                console.error("Failed to load ban list:", e);
+                this.bans = new Map();
+            }
+        }
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(this.file, JSON.stringify(Array.from(this.bans.values()), null, 2));
+        } catch (e) {
+            console.error("Failed to save ban list:", e);
+        }
+    }
+
+    public async get(userId: string) {
+        return this.bans.get(userId) ?? null;
+    }
+
+    public async set(entry: BanEntry) {
+        this.bans.set(entry.userId, entry);
+        this.save();
+    }
+
+    public async delete(userId: string) {
+        if (!this.bans.delete(userId)) return false;
+        this.save();
+        return true;
+    }
+
+    public async list() {
+        return Array.from(this.bans.values());
+    }
+}
+
+// One Redis hash shared by every node, so a ban applies to joins through any of them
+export class RedisBanStorage implements BanStorage {
+    constructor(private client: RedisLikeClient, private key = 'sonolus:bans') { }
+
+    public async get(userId: string) {
+        const value = await this.client.hget(this.key, userId);
+        return value ? JSON.parse(value) as BanEntry : null;
+    }
+
+    public async set(entry: BanEntry) {
+        await this.client.hset(this.key, entry.userId, JSON.stringify(entry));
+    }
+
+    public async delete(userId: string) {
+        return await this.client.hdel(this.key, userId) > 0;
+    }
+
+    public async list() {
+        return Object.values(await this.client.hgetall(this.key)).map(value => JSON.parse(value) as BanEntry);
+    }
+}
+
+// Server-wide bans, checked by the room join route and the WebSocket upgrade
+export class BanList {
+    constructor(private storage: BanStorage) { }
+
+    public async ban(userId: ServiceUserId, reason: string, duration: number | null = null, userName?: string) {
+        const now = Date.now();
+        const entry: BanEntry = {
+            userId,
+            userName,
+            reason,
+            createdAt: now,
+            expiresAt: duration ? now + duration : null
+        };
+        await this.storage.set(entry);
+        return entry;
+    }
+
+    public unban(userId: string) {
+        return this.storage.delete(userId);
+    }
+
+    public async get(userId: string): Promise<BanEntry | null> {
+        const entry = await this.storage.get(userId);
+        if (!entry) return null;
+        if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+            await this.unban(userId);
+            return null;
+        }
+        return entry;
+    }
+
+    public async list(): Promise<BanEntry[]> {
+        const entries = await Promise.all((await this.storage.list()).map(b => this.get(b.userId)));
+        return entries.filter((b): b is BanEntry => b !== null);
+    }
+}
+
+// REDIS_URL shares bans between nodes, otherwise they are kept in bans.json
+function createStorage(): BanStorage {
+    const redis = sharedRedis();
+    return redis ? new RedisBanStorage(redis) : new FileBanStorage(DATA_FILE);
+}
+
+export const banList = new BanList(createStorage());
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+
+// Optional config: { "words": ["..."], "maskChar": "*" }
+const CONFIG_FILE = path.join(__dirname, 'chat_filter.json');
+
+export type ChatFilterConfig = {
+    words: string[];
+    maskChar: string;
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Masks whole-word matches of the configured words (case-insensitive, works for any script)
+export class ChatFilter {
+    private pattern: RegExp | null = null;
+
+    constructor(private config: ChatFilterConfig = { words: [], maskChar: '*' }) {
+        this.compile();
+    }
+
+    public static fromFile(file = CONFIG_FILE) {
+        if (fs.existsSync(file)) {
+            try {
+                const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+                return new ChatFilter({
+                    words: Array.isArray(data.words) ? data.words.filter((w: unknown) => typeof w === 'string' && w) : [],
+                    maskChar: typeof data.maskChar === 'string' && data.maskChar ? data.maskChar : '*'
+                });
+            } catch (e) {
+                console.error("Failed to load chat filter:", e);
+            }
+        }
+        return new ChatFilter();
+    }
+
+    private compile() {
+        const words = this.config.words.map(w => escapeRegExp(w.trim())).filter(w => w);
+        this.pattern = words.length > 0
+            ? new RegExp(`(?<![\\p{L}\\p{N}])(${words.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+            : null;
+    }
+
+    public mask(text: string) {
+        if (!this.pattern) return text;
+        return text.replace(this.pattern, match => this.config.maskChar.repeat(Array.from(match).length));
+    }
+}
+
+export const chatFilter = ChatFilter.fromFile();
@@ -0,0 +1,264 @@
+import crypto from 'crypto'
+import { RoomUser, ServiceUserId } from '@sonolus/core'
+import { MultiplayerRoom, RoomConnection } from './multiplayer'
+import { RoomBus, MemoryBus, RedisBus } from './roomBus'
+import { RoomRegistry, RoomListing, MemoryRoomRegistry, RedisRoomRegistry } from './roomRegistry'
+import { ClientCommand, JoinRejection } from './types'
+import { connectRedis, sharedRedis } from './redis'
+
+// Rooms spread over several server nodes. Every room is owned by one node; clients whose
+// socket is on another node reach it over the bus:
+//   room:<name>  to the owner: join, command, leave, checkJoin, kick
+//   node:<id>    back to the socket's node: send, close, joinChecked
+
+const JOIN_CHECK_TIMEOUT = 5000
+// Well inside LISTING_TTL, so a live node never loses its claims
+const HEARTBEAT_INTERVAL = 10 * 1000
+
+export type ClusterOptions = {
+    joinCheckTimeout?: number
+    heartbeatInterval?: number
+}
+
+// What the room list shows for a hosted room, read again on every heartbeat
+export type ListingSource = () => Omit<RoomListing, 'name' | 'owner'>
+
+type RoomMessage =
+    | { type: 'join'; node: string; connectionId: string; user: RoomUser; profile: any; spectator: boolean }
+    | { type: 'command'; connectionId: string; command: ClientCommand }
+    | { type: 'leave'; connectionId: string }
+    | { type: 'checkJoin'; node: string; requestId: string; userId: ServiceUserId; key?: string; password?: string; spectator: boolean }
+    | { type: 'kick'; userId: ServiceUserId; reason: string }
+
+type NodeMessage =
+    | { type: 'send'; connectionId: string; data: string }
+    | { type: 'close'; connectionId: string; code: number; reason: string }
+    | { type: 'joinChecked'; requestId: string; rejection: JoinRejection | null }
+
+// What a socket talks to, wherever its room lives
+export type RoomLink = {
+    handleCommand(command: ClientCommand): void
+    // The socket closed. True when the room may hold the seat for a reconnect.
+    disconnect(): boolean
+}
+
+export function localLink(room: MultiplayerRoom, userId: ServiceUserId, connection: RoomConnection): RoomLink {
+    return {
+        handleCommand: command => room.handleCommand(userId, command),
+        disconnect: () => room.disconnectUser(userId, connection)
+    }
+}
+
+// A socket held by another node
+class RemoteConnection implements RoomConnection {
+    public isOpen = true
+
+    constructor(private cluster: ClusterNode, private node: string, private connectionId: string) { }
+
+    public send(data: string) {
+        if (!this.isOpen) return
+        this.cluster.publishToNode(this.node, { type: 'send', connectionId: this.connectionId, data })
+    }
+
+    public close(code: number, reason: string) {
+        if (!this.isOpen) return
+        this.isOpen = false
+        this.cluster.publishToNode(this.node, { type: 'close', connectionId: this.connectionId, code, reason })
+    }
+}
+
+export class ClusterNode {
+    // Rooms owned by this node
+    private hosted = new Map<string, { listing: ListingSource, unsubscribe: () => void }>()
+    // Sockets on this node that are in rooms owned elsewhere
+    private remoteSockets = new Map<string, RoomConnection>()
+    private joinChecks = new Map<string, (rejection: JoinRejection | null) => void>()
+    private joinCheckTimeout: number
+    private onLost: ((name: string) => void) | null = null
+
+    constructor(public readonly nodeId: string, private bus: RoomBus, public readonly registry: RoomRegistry, options: ClusterOptions = {}) {
+        this.joinCheckTimeout = options.joinCheckTimeout ?? JOIN_CHECK_TIMEOUT
+        bus.subscribe(`node:${nodeId}`, message => this.onNodeMessage(JSON.parse(message)))
+        setInterval(() => this.heartbeat(), options.heartbeatInterval ?? HEARTBEAT_INTERVAL).unref()
+    }
+
+    // Called when a heartbeat finds a hosted room claimed by another node. The room is no longer
+    // served to other nodes; users connected to this node stay in it.
+    public setLostListener(listener: (name: string) => void) {
+        this.onLost = listener
+    }
+
+    // Claims the room for this node and starts serving users of other nodes. The listing is
+    // refreshed on every heartbeat. False when another node owns a room with this name.
+    public async host(room: MultiplayerRoom, listing: ListingSource) {
+        if (!await this.registry.claim({ ...listing(), name: room.name, owner: this.nodeId })) return false
+        if (!this.hosted.has(room.name)) {
+            // connectionId -> user who joined through another node
+            const remoteUsers = new Map<string, { userId: ServiceUserId, connection: RemoteConnection }>()
+            this.hosted.set(room.name, {
+                listing,
+                unsubscribe: this.bus.subscribe(`room:${room.name}`, message =>
+                    this.onRoomMessage(room, remoteUsers, JSON.parse(message)))
+            })
+        }
+        return true
+    }
+
+    // Claims every hosted room again, which extends the claims and updates the listings
+    public async heartbeat() {
+        await Promise.all(Array.from(this.hosted, async ([name, { listing, unsubscribe }]) => {
+            try {
+                if (await this.registry.claim({ ...listing(), name, owner: this.nodeId })) return
+                console.warn(`[Cluster] ${name} was claimed by another node`);
+                unsubscribe()
+                this.hosted.delete(name)
+                if (this.onLost) this.onLost(name)
+            } catch (e) {
+                console.error(`[Cluster] Failed to refresh ${name}:`, e);
+            }
+        }))
+    }
+
+    public unhost(name: string) {
+        this.hosted.get(name)?.unsubscribe()
+        this.hosted.delete(name)
+        this.registry.release(name, this.nodeId).catch(e => {
+            console.error(`[Cluster] Failed to release ${name}:`, e);
+        })
+    }
+
+    // Releases every owned room, for shutdown
+    public async unhostAll() {
+        await Promise.all(Array.from(this.hosted, ([name, { unsubscribe }]) => {
+            unsubscribe()
+            return this.registry.release(name, this.nodeId)
+        }))
+        this.hosted.clear()
+    }
+
+    // Owner node of a room this node does not have, null if no node has it
+    public async owner(name: string) {
+        const listing = await this.registry.get(name)
+        return listing && listing.owner !== this.nodeId ? listing.owner : null
+    }
+
+    // MultiplayerRoom.checkJoin on the owner node
+    public checkJoin(roomName: string, userId: ServiceUserId, key?: string, password?: string, spectator = false) {
+        const requestId = crypto.randomUUID()
+        return new Promise<JoinRejection | null>(resolve => {
+            const timer = setTimeout(() => {
+                this.joinChecks.delete(requestId)
+                resolve({ status: 503, message: 'Room is not reachable' })
+            }, this.joinCheckTimeout)
+            this.joinChecks.set(requestId, rejection => {
+                clearTimeout(timer)
+                resolve(rejection)
+            })
+            this.publishToRoom(roomName, { type: 'checkJoin', node: this.nodeId, requestId, userId, key, password, spectator })
+        })
+    }
+
+    // Puts a socket of this node into a room owned by another node. The owner runs the ban and
+    // capacity checks and closes the connection if they fail.
+    public joinRemote(roomName: string, connection: RoomConnection, user: RoomUser, profile: any, spectator = false): RoomLink {
+        const connectionId = crypto.randomUUID()
+        this.remoteSockets.set(connectionId, connection)
+        this.publishToRoom(roomName, { type: 'join', node: this.nodeId, connectionId, user, profile, spectator })
+        return {
+            handleCommand: command => this.publishToRoom(roomName, { type: 'command', connectionId, command }),
+            disconnect: () => {
+                this.remoteSockets.delete(connectionId)
+                this.publishToRoom(roomName, { type: 'leave', connectionId })
+                return true
+            }
+        }
+    }
+
+    // Kicks the user from every room owned by another node, for server bans
+    public async kickRemote(userId: ServiceUserId, reason: string) {
+        const listings = await this.registry.list()
+        listings
+            .filter(listing => listing.owner !== this.nodeId)
+            .forEach(listing => this.publishToRoom(listing.name, { type: 'kick', userId, reason }))
+    }
+
+    public publishToNode(node: string, message: NodeMessage) {
+        this.bus.publish(`node:${node}`, JSON.stringify(message))
+    }
+
+    private publishToRoom(roomName: string, message: RoomMessage) {
+        this.bus.publish(`room:${roomName}`, JSON.stringify(message))
+    }
+
+    private onRoomMessage(room: MultiplayerRoom, remoteUsers: Map<string, { userId: ServiceUserId, connection: RemoteConnection }>, message: RoomMessage) {
+        switch (message.type) {
+            case 'join': {
+                const connection = new RemoteConnection(this, message.node, message.connectionId)
+                if (room.isBanned(message.profile.id)) {
+                    connection.close(1008, 'Banned')
+                    break
+                }
+                if (room.isFull(message.profile.id, message.spectator)) {
+                    connection.close(1008, 'Room is full')
+                    break
+                }
+                console.log(`[Cluster] ${message.profile.name} joined ${room.name} through node ${message.node}`);
+                remoteUsers.set(message.connectionId, { userId: message.profile.id, connection })
+                room.addUser(message.user, message.profile, connection, message.spectator)
+                break
+            }
+            case 'command': {
+                const entry = remoteUsers.get(message.connectionId)
+                if (entry) room.handleCommand(entry.userId, message.command)
+                break
+            }
+            case 'leave': {
+                const entry = remoteUsers.get(message.connectionId)
+                if (!entry) break
+                remoteUsers.delete(message.connectionId)
+                entry.connection.isOpen = false
+                room.disconnectUser(entry.userId, entry.connection)
+                break
+            }
+            case 'checkJoin':
+                this.publishToNode(message.node, {
+                    type: 'joinChecked',
+                    requestId: message.requestId,
+                    rejection: room.checkJoin(message.userId, message.key, message.password, message.spectator)
+                })
+                break
+            case 'kick':
+                room.kickUser(message.userId, message.reason)
+                break
+        }
+    }
+
+    private onNodeMessage(message: NodeMessage) {
+        switch (message.type) {
+            case 'send': {
+                const socket = this.remoteSockets.get(message.connectionId)
+                if (socket?.isOpen) socket.send(message.data)
+                break
+            }
+            case 'close': {
+                const socket = this.remoteSockets.get(message.connectionId)
+                this.remoteSockets.delete(message.connectionId)
+                if (socket?.isOpen) socket.close(message.code, message.reason)
+                break
+            }
+            case 'joinChecked':
+                this.joinChecks.get(message.requestId)?.(message.rejection)
+                this.joinChecks.delete(message.requestId)
+                break
+        }
+    }
+}
+
+// REDIS_URL connects the nodes through Redis (see redis), otherwise this node runs alone
+export function createCluster(nodeId: string) {
+    const publisher = sharedRedis()
+    if (publisher) {
+        return new ClusterNode(nodeId, new RedisBus(publisher, connectRedis(process.env.REDIS_URL!)), new RedisRoomRegistry(publisher))
+    }
+    return new ClusterNode(nodeId, new MemoryBus(), new MemoryRoomRegistry())
+}
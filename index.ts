@@ -5,9 +5,25 @@ import http from "http";
 import crypto from "crypto";
 import { WebSocketServer } from "ws";
 import { Sonolus } from "@sonolus/express";
-import { Text } from "@sonolus/core";
-import { MultiplayerRoom } from "./multiplayer";
+import { ServiceUserId, Sil, Text } from "@sonolus/core";
+import { MultiplayerRoom, socketConnection } from "./multiplayer";
 import { resultsStore } from "./resultsStore";
+import { reviewQueue } from "./reviewQueue";
+import { reportStore } from "./reportStore";
+import { banList } from "./banList";
+import { apiRouter } from "./api";
+import { RoomVisibility } from "./types";
+import { sessionStore } from "./sessionStore";
+import { roomStore } from "./roomStore";
+import { createCluster, localLink, RoomLink } from "./cluster";
+import { RoomListing } from "./roomRegistry";
+import { verifySonolusSignature, JoinRequestVerifier } from "./auth";
+import { parseCommand, parseSil } from "./protocol";
+import { tournamentStore, Tournament, TournamentError, TournamentFormat } from "./tournament";
+import { SCORING_MODES, ScoringMode } from "./scoring";
+import { DEFAULT_ROOM_SETTINGS } from "./roomOptions";
+import { INITIAL_RATING } from "./rating";
+import { trustLevelServer } from "./levelDuration";
 
 const port = 3000;
 const app = express();
@@ -15,31 +31,65 @@ const server = http.createServer(app);
 
 app.set("trust proxy", true);
 
+// Комнаты этого узла; комнаты других узлов доступны через cluster
 const rooms = new Map<string, MultiplayerRoom>();
-const sessions = new Map<string, any>();
-
-// Публичный ключ Sonolus для верификации (из документации)
-const SONOLUS_PUBLIC_KEY = {
-  kty: "EC",
-  crv: "P-256",
-  x: "d2B14ZAn-zDsqY42rHofst8rw3XB90-a5lT80NFdXo0",
-  y: "Hxzi9DHrlJ4CVSJVRnydxFWBZAgkFxZXbyxPSa8SJQw",
-};
+// Несколько узлов за балансировщиком должны иметь разные NODE_ID
+const NODE_ID = process.env.NODE_ID || crypto.randomBytes(4).toString("hex");
+const cluster = createCluster(NODE_ID);
+// Комнаты других узлов в списке комнат
+const remoteRooms = new Map<string, RoomListing>();
+const ROOM_LIST_SYNC_INTERVAL = 5 * 1000;
+
+// Пустые пользовательские комнаты удаляются из списка через это время
+const ROOM_IDLE_TIMEOUT = 5 * 60 * 1000;
+const MAX_ROOM_PLAYERS = 32;
+const MAX_ROOM_SPECTATORS = 16;
+// Сколько держать место отключившегося игрока (0 — удалять сразу)
+const RECONNECT_GRACE_PERIOD = 60 * 1000;
+// Роль мастера передаётся активному игроку после такого бездействия
+const MASTER_AFK_TIMEOUT = 3 * 60 * 1000;
+// Длина раунда, если длину чарта уровня узнать не удалось, и запас сверх неё
+const DEFAULT_ROUND_DURATION = 5 * 60 * 1000;
+const ROUND_TIMEOUT_GRACE = 30 * 1000;
+// Как часто комнаты сохраняются на диск (ещё раз — при остановке сервера)
+const ROOM_SNAPSHOT_INTERVAL = 10 * 1000;
+
+// Время жизни сессии авторизации и билетов на вход в комнату
+const AUTH_SESSION_TTL = 30 * 60 * 1000;
+const JOIN_TICKET_TTL = 60 * 1000; // успеть открыть WebSocket после входа
+const ACTIVE_TICKET_TTL = 12 * 60 * 60 * 1000; // пока сокет открыт
+const SESSION_CLEANUP_INTERVAL = 60 * 1000;
+const ROOM_VISIBILITIES: RoomVisibility[] = ["public", "unlisted", "private"];
+
+setInterval(() => {
+  sessionStore.cleanup()
+    .then((removed) => {
+      if (removed > 0) console.log(`[Sessions] Removed ${removed} expired sessions`);
+    })
+    .catch((e) => console.error("[Sessions] Cleanup failed:", e));
+}, SESSION_CLEANUP_INTERVAL).unref();
+
+const joinVerifier = new JoinRequestVerifier();
+const LEADERBOARD_PAGE_SIZE = 50;
+
+// Можно вынести пароль в константу или .env. Сейчас "admin" для примера.
+const ADMIN_PASSWORD = "admin";
+
+// Пароль администратора: поле password в форме или заголовок X-Admin-Password
+function isAdmin(req: any): boolean {
+  const password = req.headers["x-admin-password"] || req.body?.password;
+  return password === ADMIN_PASSWORD;
+}
 
-function verifySonolusSignature(body: Buffer, signature: string): boolean {
-  try {
-    const key = crypto.createPublicKey({
-      key: SONOLUS_PUBLIC_KEY as any,
-      format: "jwk",
-    });
-    const verify = crypto.createVerify("sha256");
-    verify.update(body);
-    verify.end();
-    return verify.verify(key, signature, "base64");
-  } catch (e) {
-    console.error("[Security] Signature verification failed:", e);
-    return false;
-  }
+// Текст сервера ({ en, ru } или строка) на языке клиента
+function localize(text: any, locale: "en" | "ru"): string {
+  return typeof text === "string" ? text : text?.[locale] || text?.en || "";
+}
+
+// Профиль из заголовка Sonolus-Session (сессия, выданная в /sonolus/authenticate)
+async function getSessionProfile(req: any): Promise<any | null> {
+  const session = await sessionStore.getAuthSession(req.headers["sonolus-session"]);
+  return session ? session.profile : null;
 }
 
 // --- MIDDLEWARE ---
@@ -62,6 +112,10 @@ app.use((req, res, next) => {
   next();
 });
 
+// --- JSON API ---
+
+app.use("/api", apiRouter);
+
 // --- LEADERBOARD ---
 
 app.get("/leaderboard", (req, res) => {
@@ -70,22 +124,16 @@ app.get("/leaderboard", (req, res) => {
     "Content-Security-Policy",
     "default-src 'self'; style-src 'self' 'unsafe-inline'; script-src 'self' 'unsafe-inline'; img-src 'self' data:;",
   );
-  const history = resultsStore.getHistory();
-
-  // Calculate Global Rating
-  const globalStats = new Map<string, { name: string; totalScore: number; matchCount: number }>();
-  history.forEach(match => {
-    match.results.forEach(r => {
-      const stats = globalStats.get(r.userId) || { name: r.userName || 'Unknown', totalScore: 0, matchCount: 0 };
-      stats.totalScore += r.result.arcadeScore;
-      stats.matchCount += 1;
-      stats.name = r.userName || stats.name; // Keep latest name
-      globalStats.set(r.userId, stats);
-    });
+  // История матчей выводится постранично
+  const page = Math.max(0, parseInt(String(req.query.page || "0"), 10) || 0);
+  const matchPage = resultsStore.queryMatches({
+    offset: page * LEADERBOARD_PAGE_SIZE,
+    limit: LEADERBOARD_PAGE_SIZE,
   });
+  const pageCount = Math.max(1, Math.ceil(matchPage.total / LEADERBOARD_PAGE_SIZE));
 
-  const sortedGlobal = Array.from(globalStats.values())
-    .sort((a, b) => b.totalScore - a.totalScore);
+  // Рейтинг Эло (результаты, помеченные анти-читом, не учитываются до проверки)
+  const sortedGlobal = resultsStore.getRatings();
 
   let html = `
     <!DOCTYPE html>
@@ -112,6 +160,7 @@ app.get("/leaderboard", (req, res) => {
     </head>
     <body>
         <h1>Лидерборд</h1>
+        <div><a href="/tournaments" style="color: #03a9f4;">Турниры &rarr;</a></div>
         
         <h2 class="section-title">Общий рейтинг сервера</h2>
         <table>
@@ -119,7 +168,7 @@ app.get("/leaderboard", (req, res) => {
                 <tr>
                     <th style="width: 50px;">Место</th>
                     <th>Игрок</th>
-                    <th style="text-align: right;">Всего очков</th>
+                    <th style="text-align: right;">Рейтинг</th>
                     <th style="text-align: right;">Матчей</th>
                 </tr>
             </thead>
@@ -136,7 +185,7 @@ app.get("/leaderboard", (req, res) => {
                 <tr>
                     <td class="${rankClass}">#${rank}</td>
                     <td><span class="${rankClass}">${player.name}</span></td>
-                    <td style="text-align: right;">${player.totalScore.toLocaleString()}</td>
+                    <td style="text-align: right;">${Math.round(player.rating)}</td>
                     <td style="text-align: right;">${player.matchCount}</td>
                 </tr>
             `;
@@ -160,7 +209,7 @@ app.get("/leaderboard", (req, res) => {
             <tbody>
     `;
 
-  if (history.length === 0) {
+  if (matchPage.matches.length === 0) {
     html += `
             <tr>
                 <td colspan="4" style="text-align:center; padding: 50px;">Нет истории матчей.</td>
@@ -168,7 +217,7 @@ app.get("/leaderboard", (req, res) => {
     `;
   }
 
-  history.forEach((match) => {
+  matchPage.matches.forEach((match) => {
     const date = new Date(match.timestamp).toLocaleString();
 
     const rawLevel = match.level as any;
@@ -195,16 +244,23 @@ app.get("/leaderboard", (req, res) => {
       const rankClass = rank <= 3 ? `rank-${rank}` : "";
       const gradeClass = `grade-${r.result.grade}`;
       const userName = r.userName || "Unknown";
+      const flagged = r.flags?.length ? ` <span title="${r.flags.join(", ")}">⚠</span>` : "";
+      const ratingChange = match.ratingChanges?.find(c => c.userId === r.userId);
+      const ratingDelta = ratingChange ? ratingChange.after - ratingChange.before : null;
+      const ratingHtml = ratingDelta === null
+        ? ""
+        : `${ratingDelta >= 0 ? "+" : ""}${ratingDelta.toFixed(1)}`;
 
       resultsHtml += `
                 <tr>
                     <td style="border:none; width: 30px;" class="${rankClass}">#${rank}</td>
                     <td style="border:none;">
-                        <span class="${rankClass}">${userName}</span>
+                        <span class="${rankClass}">${userName}</span>${flagged}
                     </td>
                     <td style="border:none; text-align:right;">${r.result.arcadeScore.toLocaleString()}</td>
-                    <td style="border:none; text-align:right;" class="${gradeClass}">${r.result.grade}</td>
+                    <td style="border:none; text-align:right;" class="${gradeClass}">${r.dnf ? "DNF" : r.result.grade}</td>
                     <td style="border:none; text-align:right; font-size:0.8em;">Combo: ${r.result.combo}</td>
+                    <td style="border:none; text-align:right; font-size:0.8em;">${ratingHtml}</td>
                 </tr>
             `;
     });
@@ -226,6 +282,11 @@ app.get("/leaderboard", (req, res) => {
   html += `
             </tbody>
         </table>
+        <div>
+            ${page > 0 ? `<a href="/leaderboard?page=${page - 1}">&larr; Назад</a>` : ""}
+            Страница ${page + 1} из ${pageCount}
+            ${page + 1 < pageCount ? `<a href="/leaderboard?page=${page + 1}">Вперёд &rarr;</a>` : ""}
+        </div>
         <div style="margin-top: 20px; display: flex; justify-content: flex-end;">
             <form id="reset-form" action="/reset-leaderboard" method="POST">
                 <input type="hidden" name="password" id="reset-password">
@@ -250,9 +311,7 @@ app.get("/leaderboard", (req, res) => {
 });
 
 app.post("/reset-leaderboard", (req, res) => {
-  const password = req.body.password;
-  // Можно вынести пароль в константу или .env. Сейчас "admin" для примера.
-  if (password !== "admin") {
+  if (!isAdmin(req)) {
     console.warn("[Leaderboard] Reset failed: Invalid password");
     return res.status(403).send("Invalid password. <a href='/leaderboard'>Go back</a>");
   }
@@ -262,10 +321,337 @@ app.post("/reset-leaderboard", (req, res) => {
   res.redirect("/leaderboard");
 });
 
+// --- ADMIN: REVIEW QUEUE ---
+
+app.get("/admin/review-queue", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const status = req.query.status;
+  if (status && !["open", "cleared", "confirmed"].includes(status)) {
+    return res.status(400).json({ message: "Invalid status" });
+  }
+  res.json({ entries: reviewQueue.list(status) });
+});
+
+app.post("/admin/review-queue/:id/resolve", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const status = req.body.status;
+  if (status !== "cleared" && status !== "confirmed") {
+    return res.status(400).json({ message: "Status must be cleared or confirmed" });
+  }
+
+  const entry = reviewQueue.resolve(req.params.id, status);
+  if (!entry) return res.status(404).json({ message: "Review entry not found" });
+
+  // Оправданный результат снова попадает в рейтинг
+  if (status === "cleared" && entry.matchId) {
+    resultsStore.clearFlags(entry.matchId, entry.userId);
+  }
+  console.log(`[Review] ${entry.id} resolved as ${status}`);
+  res.json({ entry });
+});
+
+// --- ADMIN: PLAYER REPORTS ---
+
+app.get("/admin/reports", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const status = req.query.status;
+  if (status && !["open", "resolved", "dismissed"].includes(status)) {
+    return res.status(400).json({ message: "Invalid status" });
+  }
+  res.json({ reports: reportStore.list(status) });
+});
+
+app.post("/admin/reports/:id/resolve", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const status = req.body.status;
+  if (status !== "resolved" && status !== "dismissed") {
+    return res.status(400).json({ message: "Status must be resolved or dismissed" });
+  }
+
+  const report = reportStore.resolve(
+    req.params.id,
+    status,
+    typeof req.body.note === "string" ? req.body.note : undefined,
+  );
+  if (!report) return res.status(404).json({ message: "Report not found" });
+
+  console.log(`[Reports] ${report.id} resolved as ${status}`);
+  res.json({ report });
+});
+
+// --- ADMIN: SERVER BANS ---
+
+app.get("/admin/bans", async (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  res.json({ bans: await banList.list() });
+});
+
+app.post("/admin/bans", async (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const { userId, reason, duration, userName } = req.body;
+  if (typeof userId !== "string" || !userId) {
+    return res.status(400).json({ message: "userId is required" });
+  }
+  if (duration !== undefined && (typeof duration !== "number" || duration <= 0)) {
+    return res.status(400).json({ message: "duration must be a positive number of ms" });
+  }
+
+  const ban = await banList.ban(userId as ServiceUserId, reason || "Banned by admin", duration ?? null, userName);
+  // Забаненный игрок сразу покидает все комнаты, в том числе на других узлах
+  rooms.forEach((room) => room.kickUser(ban.userId, "Banned from this server"));
+  await cluster.kickRemote(ban.userId, "Banned from this server");
+  console.log(`[Bans] ${userId} banned: ${ban.reason}`);
+  res.json({ ban });
+});
+
+app.delete("/admin/bans/:userId", async (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  if (!(await banList.unban(req.params.userId))) {
+    return res.status(404).json({ message: "Ban not found" });
+  }
+  console.log(`[Bans] ${req.params.userId} unbanned`);
+  res.json({ ok: true });
+});
+
+// --- TOURNAMENTS ---
+
+const TOURNAMENT_FORMATS: TournamentFormat[] = ["singleElimination", "swiss"];
+const MAX_SWISS_ROUNDS = 15;
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Ошибки TournamentError возвращаются клиенту как 400
+function handleTournament(res: any, action: () => void) {
+  try {
+    action();
+  } catch (e) {
+    if (e instanceof TournamentError) return res.status(400).json({ message: e.message });
+    throw e;
+  }
+}
+
+app.get("/admin/tournaments", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  res.json({ tournaments: tournamentStore.list(req.query.status) });
+});
+
+// Тело: { name, format, levels: Sil[], scoring?, swissRounds? }
+app.post("/admin/tournaments", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const { name, format, levels, scoring, swissRounds } = req.body;
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ message: "name is required" });
+  }
+  if (!TOURNAMENT_FORMATS.includes(format)) {
+    return res.status(400).json({ message: "format must be singleElimination or swiss" });
+  }
+  const parsedLevels = Array.isArray(levels) ? levels.map(parseSil) : [];
+  const validLevels = parsedLevels.filter((level): level is Sil => level !== null);
+  if (validLevels.length === 0 || validLevels.length !== parsedLevels.length) {
+    return res.status(400).json({ message: "levels must be a non-empty list of { address, name }" });
+  }
+  if (scoring !== undefined && !(scoring in SCORING_MODES)) {
+    return res.status(400).json({ message: "Invalid scoring" });
+  }
+  if (swissRounds !== undefined && (!Number.isInteger(swissRounds) || swissRounds < 1 || swissRounds > MAX_SWISS_ROUNDS)) {
+    return res.status(400).json({ message: `swissRounds must be between 1 and ${MAX_SWISS_ROUNDS}` });
+  }
+
+  handleTournament(res, () => {
+    const tournament = tournamentStore.create({
+      name: name.trim().slice(0, 50),
+      format,
+      levels: validLevels,
+      scoring: (scoring as ScoringMode) ?? DEFAULT_ROOM_SETTINGS.scoring,
+      swissRounds,
+    });
+    console.log(`[Tournament] Created ${tournament.name} (${tournament.format})`);
+    res.json({ tournament });
+  });
+});
+
+app.post("/admin/tournaments/:id/players", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  const { userId, userName } = req.body;
+  if (typeof userId !== "string" || !userId) {
+    return res.status(400).json({ message: "userId is required" });
+  }
+  handleTournament(res, () => {
+    const player = tournamentStore.register(req.params.id, userId, typeof userName === "string" && userName ? userName : "Unknown");
+    res.json({ player });
+  });
+});
+
+app.delete("/admin/tournaments/:id/players/:userId", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  handleTournament(res, () => {
+    if (!tournamentStore.unregister(req.params.id, req.params.userId)) {
+      return res.status(404).json({ message: "Player not registered" });
+    }
+    res.json({ ok: true });
+  });
+});
+
+// Посев по рейтингу Эло и генерация первого раунда
+app.post("/admin/tournaments/:id/start", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  handleTournament(res, () => {
+    const tournament = tournamentStore.start(
+      req.params.id,
+      (userId) => resultsStore.getRating(userId)?.rating ?? INITIAL_RATING,
+    );
+    openTournamentRooms(tournament);
+    console.log(`[Tournament] Started ${tournament.name} with ${tournament.players.length} players`);
+    res.json({ tournament });
+  });
+});
+
+// Ручное решение спорного матча или неявки
+app.post("/admin/tournaments/:id/matches/:matchId/winner", (req: any, res) => {
+  if (!isAdmin(req)) return res.status(403).json({ message: "Invalid password" });
+  if (typeof req.body.userId !== "string") {
+    return res.status(400).json({ message: "userId is required" });
+  }
+  handleTournament(res, () => {
+    const match = tournamentStore.setWinner(req.params.id, req.params.matchId, req.body.userId);
+    const room = match.roomName ? rooms.get(match.roomName) : undefined;
+    if (room) closeTournamentRoom(room, "The match was decided by an admin");
+    openTournamentRooms(tournamentStore.get(req.params.id)!);
+    res.json({ match });
+  });
+});
+
+app.get("/tournaments", (req, res) => {
+  const rows = tournamentStore.list().map((t) => `
+            <tr>
+                <td><a href="/tournaments/${t.id}">${escapeHtml(t.name)}</a></td>
+                <td>${t.format === "swiss" ? "Швейцарская" : "Олимпийская"}</td>
+                <td>${t.status}</td>
+                <td style="text-align: right;">${t.players.length}</td>
+            </tr>
+        `).join("");
+
+  res.send(`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Tournaments</title>
+        <style>
+            body { font-family: sans-serif; background: #222; color: #eee; padding: 20px; }
+            a { color: #03a9f4; }
+            table { width: 100%; border-collapse: collapse; background: #333; }
+            th, td { padding: 10px; border: 1px solid #444; text-align: left; }
+            th { background: #444; }
+        </style>
+    </head>
+    <body>
+        <h1>Турниры</h1>
+        <div><a href="/leaderboard">&larr; Лидерборд</a></div>
+        <table style="margin-top: 20px;">
+            <thead><tr><th>Название</th><th>Формат</th><th>Статус</th><th style="text-align: right;">Игроков</th></tr></thead>
+            <tbody>${rows || `<tr><td colspan="4" style="text-align:center; padding: 20px;">Турниров пока нет.</td></tr>`}</tbody>
+        </table>
+    </body>
+    </html>
+  `);
+});
+
+app.get("/tournaments/:id", (req, res) => {
+  const tournament = tournamentStore.get(req.params.id);
+  if (!tournament) return res.status(404).send("Tournament not found. <a href='/tournaments'>Go back</a>");
+
+  const names = new Map(tournament.players.map((p) => [p.userId, p.userName]));
+  const playerName = (userId: string | null) =>
+    userId ? escapeHtml(names.get(userId) || "Unknown") : "—";
+
+  // Сетка: колонка на раунд, в каждой карточки матчей
+  let rounds = "";
+  for (let round = 0; round < Math.max(tournament.rounds, 1); round++) {
+    const cards = tournament.matches.filter((m) => m.round === round).map((match) => {
+      const slot = (userId: string | null) => {
+        const winnerClass = match.status === "finished" && userId && match.winner === userId ? "winner" : "";
+        return `<div class="slot ${winnerClass}">${playerName(userId)}</div>`;
+      };
+      const status = match.status === "ready"
+        ? `<div class="match-status">Идёт · ${match.roomName ?? ""}</div>`
+        : match.status === "finished" && match.winner === null
+          ? `<div class="match-status">Ничья</div>`
+          : "";
+      return `<div class="match">${slot(match.players[0])}${slot(match.players[1])}${status}</div>`;
+    }).join("");
+    const level = tournament.levels[Math.min(round, tournament.levels.length - 1)];
+    rounds += `
+            <div class="round">
+                <h3>Раунд ${round + 1}</h3>
+                <div class="level-artist">${escapeHtml(level.name)}</div>
+                ${cards || `<div class="level-artist">Ещё не сыгран</div>`}
+            </div>
+        `;
+  }
+
+  let standings = "";
+  if (tournament.format === "swiss" && tournament.status !== "registration") {
+    standings = `
+        <h2 class="section-title">Таблица</h2>
+        <table>
+            <thead><tr><th>Место</th><th>Игрок</th><th>Очки</th><th>Бухгольц</th><th>В/Н/П</th></tr></thead>
+            <tbody>${tournamentStore.swissStandings(tournament).map((s, index) => `
+                <tr>
+                    <td>#${index + 1}</td>
+                    <td>${escapeHtml(s.userName)}</td>
+                    <td>${s.points}</td>
+                    <td>${s.buchholz}</td>
+                    <td>${s.wins}/${s.draws}/${s.losses}</td>
+                </tr>`).join("")}
+            </tbody>
+        </table>
+    `;
+  }
+
+  const registered = tournament.status === "registration"
+    ? `<h2 class="section-title">Зарегистрированы</h2><ul>${tournament.players.map((p) => `<li>${escapeHtml(p.userName)}</li>`).join("")}</ul>`
+    : "";
+
+  res.send(`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>${escapeHtml(tournament.name)}</title>
+        <style>
+            body { font-family: sans-serif; background: #222; color: #eee; padding: 20px; }
+            a { color: #03a9f4; }
+            table { width: 100%; border-collapse: collapse; background: #333; margin-bottom: 30px; }
+            th, td { padding: 10px; border: 1px solid #444; text-align: left; }
+            th { background: #444; }
+            .bracket { display: flex; gap: 20px; overflow-x: auto; }
+            .round { min-width: 200px; }
+            .match { background: #333; border: 1px solid #444; margin: 10px 0; }
+            .slot { padding: 6px 10px; border-bottom: 1px solid #444; }
+            .winner { color: #ffd700; font-weight: bold; }
+            .match-status, .level-artist { font-size: 0.8em; color: #aaa; padding: 4px 10px; }
+            .section-title { margin-top: 40px; margin-bottom: 10px; border-bottom: 2px solid #444; padding-bottom: 5px; }
+        </style>
+    </head>
+    <body>
+        <h1>${escapeHtml(tournament.name)}</h1>
+        <div><a href="/tournaments">&larr; Турниры</a> · <a href="/leaderboard">Лидерборд</a></div>
+        ${tournament.winner ? `<h2 class="winner">Победитель: ${playerName(tournament.winner)}</h2>` : ""}
+        ${registered}
+        ${tournament.status === "registration" ? "" : `<h2 class="section-title">Сетка</h2><div class="bracket">${rounds}</div>`}
+        ${standings}
+    </body>
+    </html>
+  `);
+});
+
 // --- AUTHENTICATION & JOIN HANDLERS ---
 
 // Реализация POST /sonolus/authenticate
-app.post("/sonolus/authenticate", (req: any, res) => {
+app.post("/sonolus/authenticate", async (req: any, res) => {
   console.log("[Auth] Authenticate request received");
   const signature = req.headers["sonolus-signature"];
   if (!signature || !verifySonolusSignature(req.rawBody, signature)) {
@@ -273,33 +659,206 @@ app.post("/sonolus/authenticate", (req: any, res) => {
     return res.status(401).json({ message: "Invalid signature" });
   }
 
-  const session = Buffer.from(JSON.stringify(req.body.userProfile)).toString(
-    "base64",
+  const session = await sessionStore.createAuthSession(
+    req.body.userProfile,
+    AUTH_SESSION_TTL,
   );
   console.log("[Auth] Session created for user:", req.body.userProfile.name);
   res.json({
-    session: session,
-    expiration: Date.now() + 30 * 60 * 1000,
+    session: session.id,
+    expiration: session.expiresAt,
+  });
+});
+
+// Реализация POST /sonolus/rooms/create
+app.post("/sonolus/rooms/create", async (req: any, res) => {
+  console.log("[RoomCreate] Create request received");
+  const profile = await getSessionProfile(req);
+  if (!profile || !profile.id) {
+    console.warn("[RoomCreate] Missing or invalid session");
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const values = new URLSearchParams(req.body.values || "");
+  if (values.get("type") !== "basic") {
+    return res.status(400).json({ message: "Unknown create type" });
+  }
+
+  const title = (values.get("title") || "").trim().slice(0, 30);
+  if (!title) {
+    return res.status(400).json({ message: "Title is required" });
+  }
+
+  const visibility = values.get("visibility") || "public";
+  if (!ROOM_VISIBILITIES.includes(visibility as RoomVisibility)) {
+    return res.status(400).json({ message: "Invalid visibility" });
+  }
+
+  const maxPlayers = Number(values.get("maxPlayers") || 0);
+  if (!Number.isInteger(maxPlayers) || maxPlayers < 0 || maxPlayers > MAX_ROOM_PLAYERS) {
+    return res.status(400).json({ message: "Invalid max players" });
+  }
+
+  let name: string;
+  do {
+    name = `room-${crypto.randomBytes(4).toString("hex")}`;
+  } while (rooms.has(name));
+
+  const room = new MultiplayerRoom(name, title);
+  room.creatorId = profile.id;
+  room.visibility = visibility as RoomVisibility;
+  room.maxPlayers = maxPlayers;
+  room.setPassword(values.get("password") || "");
+  registerRoom(room, profile.name || "Unknown");
+  room.setIdleCleanup(ROOM_IDLE_TIMEOUT, () => unregisterRoom(name));
+
+  console.log(
+    `[RoomCreate] ${profile.name} created room ${name} (${title}, ${visibility})`,
+  );
+  res.json({
+    name,
+    key: room.key,
+  });
+});
+
+// Страница комнаты с паролем или по приглашению: форма доступа (пароль или ключ приглашения).
+// Остальные комнаты отдаёт sonolus.router
+app.get("/sonolus/rooms/:itemName", (req: any, res, next) => {
+  const itemName = req.params.itemName;
+  const item: any = sonolus.room.items.find((item: any) => item.name === itemName);
+  const restricted = rooms.get(itemName)?.isRestricted ?? remoteRooms.get(itemName)?.restricted;
+  if (!item || !restricted) return next();
+
+  const locale = req.query.localization === "ru" ? "ru" : "en";
+  res.json({
+    item: {
+      ...item,
+      title: localize(item.title, locale),
+      subtitle: localize(item.subtitle, locale),
+      master: localize(item.master, locale),
+    },
+    actions: [
+      {
+        type: "access",
+        title: localize({ en: "Enter Password", ru: "Ввести пароль" }, locale),
+        icon: "lock",
+        requireConfirmation: false,
+        options: [
+          {
+            query: "password",
+            name: localize({ en: "Password or invite key", ru: "Пароль или ключ приглашения" }, locale),
+            required: true,
+            type: "text",
+            def: "",
+            placeholder: "",
+            limit: 64,
+            shortcuts: [],
+          },
+        ],
+      },
+    ],
+    hasCommunity: false,
+    leaderboards: [],
+    sections: [],
   });
 });
 
+// Реализация POST /sonolus/rooms/:itemName/submit — проверка пароля из формы доступа
+app.post("/sonolus/rooms/:itemName/submit", async (req: any, res) => {
+  const itemName = req.params.itemName;
+  const authSession = req.headers["sonolus-session"];
+  const profile = await getSessionProfile(req);
+  if (!profile || !profile.id) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const room = rooms.get(itemName);
+  if (!room && !(await cluster.owner(itemName))) {
+    return res.status(404).json({ message: "Room not found" });
+  }
+
+  const values = new URLSearchParams(req.body.values || "");
+  const secret = values.get("password") || "";
+  if (values.get("type") !== "access" || !secret) {
+    return res.status(400).json({ message: "Unknown action" });
+  }
+
+  // Заполненность комнаты проверяется при входе
+  const rejection = room
+    ? room.checkJoin(profile.id, secret, secret)
+    : await cluster.checkJoin(itemName, profile.id, secret, secret);
+  if (rejection && rejection.status !== 409) {
+    console.warn(`[RoomAccess] Rejected for ${itemName}: ${rejection.message}`);
+    return res.status(rejection.status).json({ message: rejection.message });
+  }
+
+  await sessionStore.grantRoomAccess(authSession, itemName, secret);
+  console.log(`[RoomAccess] ${profile.name} unlocked ${itemName}`);
+  res.json({ key: "", hashes: [], shouldUpdateItem: true });
+});
+
 // Реализация POST /sonolus/rooms/:itemName
-app.post("/sonolus/rooms/:itemName", (req: any, res) => {
+app.post("/sonolus/rooms/:itemName", async (req: any, res) => {
   const itemName = req.params.itemName;
   const signature = req.headers["sonolus-signature"];
   console.log(`[RoomJoin] Request for room: ${itemName}`);
 
-  if (!rooms.has(itemName)) {
+  const room = rooms.get(itemName);
+  if (!room && !(await cluster.owner(itemName))) {
     console.warn(`[RoomJoin] Room not found: ${itemName}`);
     return res.status(404).json({ message: "Room not found" });
   }
 
+  // Подпись, комната, время и повтор запроса проверяются до выдачи билета
+  const verified = await joinVerifier.verify(req.rawBody, signature, itemName);
+  if ("status" in verified) {
+    console.warn(`[RoomJoin] Rejected join for ${itemName}: ${verified.message}`);
+    return res.status(verified.status).json({ message: verified.message });
+  }
+
+  const ban = await banList.get(verified.profile.id);
+  if (ban) {
+    console.warn(`[RoomJoin] Banned user ${verified.profile.id} tried to join ${itemName}`);
+    return res.status(403).json({ message: `You are banned from this server: ${ban.reason}` });
+  }
+
+  const authSession = req.headers["sonolus-session"];
+  const sessionProfile = await getSessionProfile(req);
+  if (!sessionProfile) {
+    console.warn(`[RoomJoin] Missing or expired session for ${itemName}`);
+    return res.status(401).json({ message: "Session expired" });
+  }
+  if (verified.profile.id !== sessionProfile.id) {
+    console.warn(`[RoomJoin] Profile does not match session for ${itemName}`);
+    return res.status(403).json({ message: "Profile does not match session" });
+  }
+
+  // Пароль или ключ приглашения вводится в форме доступа на странице комнаты и хранится в сессии,
+  // ключ создателя приходит в Sonolus-Room-Key; ?spectate=1 — войти зрителем.
+  // Комнату другого узла проверяет её владелец
+  const spectator = req.query.spectate === "1" || req.query.spectate === "true";
+  const access = (await sessionStore.getAuthSession(authSession))?.roomAccess?.[itemName];
+  const key = req.headers["sonolus-room-key"] || access;
+  const rejection = room
+    ? room.checkJoin(verified.profile.id, key, access, spectator)
+    : await cluster.checkJoin(itemName, verified.profile.id, key, access, spectator);
+  if (rejection) {
+    console.warn(`[RoomJoin] Rejected for ${itemName}: ${rejection.message}`);
+    return res.status(rejection.status).json({ message: rejection.message });
+  }
+
   const authentication = req.rawBody.toString("base64");
-  const sessionId = crypto.randomUUID();
-  sessions.set(sessionId, {
-    authentication,
-    signature: signature || "",
-  });
+  const sessionId = await sessionStore.createJoinTicket(
+    {
+      roomId: itemName,
+      profileId: sessionProfile.id,
+      authSession,
+      authentication,
+      signature,
+      spectator,
+    },
+    JOIN_TICKET_TTL,
+  );
 
   const protocol = req.headers["x-forwarded-proto"] || req.protocol;
   const host = req.headers["x-forwarded-host"] || req.get("host");
@@ -332,21 +891,25 @@ server.on("upgrade", (request, socket, head) => {
   );
 
   if (url.pathname === "/multiplayer") {
-    wss.handleUpgrade(request, socket, head, (ws) => {
+    wss.handleUpgrade(request, socket, head, async (ws) => {
       const roomId = url.searchParams.get("room");
       const session = url.searchParams.get("session");
 
-      if (!roomId || !rooms.has(roomId) || !session) {
+      if (!roomId || !session) {
         ws.close(1008, "Invalid connection params");
         return;
       }
 
       try {
-        const room = rooms.get(roomId)!;
-        const sessionData = sessions.get(session);
+        const room = rooms.get(roomId);
+        if (!room && !(await cluster.owner(roomId))) {
+          ws.close(1008, "Room not found");
+          return;
+        }
+        const sessionData = await sessionStore.getJoinTicket(session, roomId);
 
         if (!sessionData) {
-          ws.close(1008, "Session not found");
+          ws.close(1008, "Session not found or expired");
           return;
         }
 
@@ -355,19 +918,49 @@ server.on("upgrade", (request, socket, head) => {
         );
         const profile = originalBody.userProfile;
 
+        if (profile?.id !== sessionData.profileId) {
+          ws.close(1008, "Session does not match profile");
+          return;
+        }
+
+        // Бан в комнате и места в комнате другого узла проверяет её владелец
+        if ((await banList.get(profile.id)) || room?.isBanned(profile.id)) {
+          ws.close(1008, "Banned");
+          return;
+        }
+
+        if (room?.isFull(profile.id, sessionData.spectator)) {
+          ws.close(1008, "Room is full");
+          return;
+        }
+
         const roomUser = {
           authentication: sessionData.authentication,
           signature: sessionData.signature,
         };
 
         console.log(`[WS] Authorized: ${profile.name} (ID: ${profile.id})`);
-        room.addUser(roomUser, profile, ws);
+        sessionStore.touch(session, ACTIVE_TICKET_TTL)
+          .catch((e) => console.error("[WS] Failed to extend the ticket:", e));
+        const connection = socketConnection(ws);
+        let link: RoomLink;
+        if (room) {
+          room.addUser(roomUser, profile, connection, sessionData.spectator);
+          link = localLink(room, profile.id, connection);
+        } else {
+          link = cluster.joinRemote(roomId, connection, roomUser, profile, sessionData.spectator);
+        }
 
         ws.on("message", (message: any) => {
           try {
-            const command = JSON.parse(message.toString());
-            console.log(`[WS] Received command from ${profile.name}:`, command.type, JSON.stringify(command).substring(0, 100));
-            room.handleCommand(profile.id, command);
+            const parsed = parseCommand(message.toString());
+            if (!parsed.ok) {
+              console.warn(`[WS] Rejected command from ${profile.name}:`, parsed.command, parsed.error);
+              ws.send(JSON.stringify({ type: "error", command: parsed.command, message: parsed.error }));
+              return;
+            }
+            console.log(`[WS] Received command from ${profile.name}:`, parsed.command.type, JSON.stringify(parsed.command).substring(0, 100));
+            link.handleCommand(parsed.command);
           } catch (e) {
             console.error("[WS] Command error:", e);
           }
@@ -375,7 +968,11 @@ server.on("upgrade", (request, socket, head) => {
 
         ws.on("close", (code: number) => {
           console.log(`[WS] Connection closed for ${profile.name}. Code: ${code}`);
-          room.removeUser(profile.id);
+          // Тот же билет можно использовать для переподключения в течение grace-периода
+          if (link.disconnect()) {
+            sessionStore.touch(session, RECONNECT_GRACE_PERIOD)
+              .catch((e) => console.error("[WS] Failed to extend the ticket:", e));
+          }
         });
       } catch (err) {
         console.error("[WS] Fatal Error:", err);
@@ -390,6 +987,8 @@ server.on("upgrade", (request, socket, head) => {
 // --- SONOLUS SETUP ---
 
 const publicUrl = "http://192.168.0.6:3000";
+// Длительность уровней берётся только с этого сервера и из LEVEL_SERVERS
+trustLevelServer(publicUrl);
 
 const sonolus = new Sonolus({
   address: publicUrl,
@@ -412,6 +1011,35 @@ const sonolus = new Sonolus({
             required: true,
             shortcuts: []
           },
+          visibility: {
+            type: "select",
+            name: { en: "Visibility", ru: "Видимость" },
+            def: "public",
+            required: false,
+            values: [
+              { name: "public", title: { en: "Public", ru: "Публичная" } },
+              { name: "unlisted", title: { en: "Unlisted", ru: "Не в списке" } },
+              { name: "private", title: { en: "Invite only", ru: "Только по приглашению" } },
+            ],
+          },
+          password: {
+            type: "text",
+            name: { en: "Password", ru: "Пароль" },
+            placeholder: { en: "No password", ru: "Без пароля" },
+            def: "",
+            limit: 32,
+            required: false,
+            shortcuts: []
+          },
+          maxPlayers: {
+            type: "slider",
+            name: { en: "Max players (0 = unlimited)", ru: "Макс. игроков (0 = без лимита)" },
+            def: 8,
+            min: 0,
+            max: MAX_ROOM_PLAYERS,
+            step: 1,
+            required: false,
+          },
         },
       },
     },
@@ -425,7 +1053,9 @@ sonolus.room.infoHandler = async () => ({
     {
       title: { en: "Public Rooms", ru: "Публичные комнаты" },
       itemType: "room",
-      items: (sonolus.room as any).items,
+      items: (sonolus.room as any).items.filter(
+        (item: any) => rooms.get(item.name)?.isListed ?? remoteRooms.get(item.name)?.listed ?? true,
+      ),
     },
   ],
 });
@@ -440,19 +1070,175 @@ sonolus.banner = {
   url: `${publicUrl}/sonolus/banner`,
 };
 
+function registerRoom(room: MultiplayerRoom, master: any, subtitle: any = "") {
+  room.reconnectGracePeriod = RECONNECT_GRACE_PERIOD;
+  room.masterAfkTimeout = MASTER_AFK_TIMEOUT;
+  room.maxSpectators = MAX_ROOM_SPECTATORS;
+  room.defaultRoundDuration = DEFAULT_ROUND_DURATION;
+  room.roundTimeoutGrace = ROUND_TIMEOUT_GRACE;
+  // Выгнанный игрок не может вернуться по старому билету, только заново войдя в комнату
+  room.setKickListener((userId) => {
+    sessionStore.revokeJoinTickets(room.name, userId)
+      .catch((e) => console.error(`[Rooms] Failed to revoke tickets in ${room.name}:`, e));
+  });
+  rooms.set(room.name, room);
+  sonolus.room.items.push({
+    name: room.name,
+    title: room.title,
+    subtitle,
+    master,
+    tags: [],
+  });
+
+  // Комната с тем же именем на другом узле остаётся там, здесь она убирается.
+  // Запись в реестре обновляется при каждом heartbeat (пароль восстановленной комнаты и т.п.)
+  cluster.host(room, () => ({ title: room.title, subtitle, master, listed: room.isListed, restricted: room.isRestricted }))
+    .then((claimed) => {
+      if (claimed) return;
+      console.warn(`[Cluster] ${room.name} is owned by another node, dropping the local copy`);
+      dropRoomCopy(room.name);
+    })
+    .catch((e) => console.error(`[Cluster] Failed to register ${room.name}:`, e));
+}
+
+function dropRoomCopy(name: string) {
+  removeRoomItem(name);
+  rooms.delete(name);
+}
+
+// Узел потерял комнату (например, пропустил heartbeat), в списке остаётся копия владельца
+cluster.setLostListener(dropRoomCopy);
+
+function unregisterRoom(name: string) {
+  rooms.delete(name);
+  removeRoomItem(name);
+  cluster.unhost(name);
+  console.log(`[Rooms] Room removed: ${name}`);
+}
+
+function removeRoomItem(name: string) {
+  const index = sonolus.room.items.findIndex((item: any) => item.name === name);
+  if (index !== -1) sonolus.room.items.splice(index, 1);
+}
+
+// Список комнат других узлов берётся из реестра
+function syncRemoteRooms() {
+  cluster.registry.list()
+    .then((listings) => {
+      remoteRooms.clear();
+      listings
+        .filter((listing) => listing.owner !== cluster.nodeId && !rooms.has(listing.name))
+        .forEach((listing) => remoteRooms.set(listing.name, listing));
+
+      sonolus.room.items = sonolus.room.items.filter(
+        (item: any) => rooms.has(item.name) || remoteRooms.has(item.name),
+      );
+      remoteRooms.forEach((listing) => {
+        if (sonolus.room.items.some((item: any) => item.name === listing.name)) return;
+        sonolus.room.items.push({
+          name: listing.name,
+          title: listing.title,
+          subtitle: listing.subtitle,
+          master: listing.master,
+          tags: [],
+        });
+      });
+    })
+    .catch((e) => console.error("[Cluster] Failed to sync the room list:", e));
+}
+
+// Комната на каждый готовый матч турнира: только его игроки, уровень и роли зафиксированы
+function openTournamentRooms(tournament: Tournament) {
+  tournament.matches.forEach((match) => {
+    if (match.status !== "ready") return;
+    if (match.roomName && rooms.has(match.roomName)) return;
+
+    // После перезапуска комната открывается под прежним именем
+    const name = match.roomName || `tournament-${crypto.randomBytes(4).toString("hex")}`;
+    const players = match.players.filter((p): p is string => p !== null) as ServiceUserId[];
+    const room = new MultiplayerRoom(name, `${tournament.name} · R${match.round + 1} #${match.index + 1}`);
+    room.creatorId = players[0];
+    room.allowedUsers = new Set(players);
+    room.level = tournamentStore.levelFor(tournament, match);
+    room.setSettings({ ...DEFAULT_ROOM_SETTINGS, scoring: tournament.scoring });
+    room.locked = true;
+    room.isSuggestionsLocked = true;
+
+    room.setMatchListener((record, results) => {
+      if (!tournamentStore.reportResult(tournament.id, match.id, results, record?.id)) {
+        // Помеченный античитом результат не решает матч, его разбирает админ
+        const flagged = results.some((r) => r.flags?.length);
+        room.announce(flagged
+          ? "A flagged result is waiting for admin review, play the level again or wait for an admin"
+          : "No winner this round, play the level again");
+        return;
+      }
+      const winner = tournamentStore.get(tournament.id)!.matches.find((m) => m.id === match.id)!.winner;
+      const winnerName = tournament.players.find((p) => p.userId === winner)?.userName;
+      closeTournamentRoom(room, winnerName ? `${winnerName} wins the match` : "The match is a draw");
+      openTournamentRooms(tournamentStore.get(tournament.id)!);
+    });
+
+    const names = players.map((userId) => tournament.players.find((p) => p.userId === userId)?.userName || "Unknown");
+    registerRoom(room, { en: "Tournament", ru: "Турнир" }, names.join(" vs "));
+    tournamentStore.setMatchRoom(tournament.id, match.id, name);
+    console.log(`[Tournament] Opened ${name} for ${names.join(" vs ")}`);
+  });
+}
+
+// Решённый матч: объявление в чат, комната удаляется, когда её покинут
+function closeTournamentRoom(room: MultiplayerRoom, message: string) {
+  room.announce(message);
+  room.setIdleCleanup(ROOM_IDLE_TIMEOUT, () => unregisterRoom(room.name));
+}
+
+tournamentStore.list("running").forEach(openTournamentRooms);
+
 const testRoomId = "test-room";
 const testRoom = new MultiplayerRoom(testRoomId, {
   en: "Test Public Lobby",
   ru: "Тестовое лобби",
 });
-rooms.set(testRoomId, testRoom);
+registerRoom(
+  testRoom,
+  { en: "System", ru: "Система" },
+  { en: "Welcome to multiplayer!", ru: "Добро пожаловать!" },
+);
+
+function saveRooms() {
+  roomStore.save(Array.from(rooms.values(), (room) => {
+    const item: any = sonolus.room.items.find((item: any) => item.name === room.name);
+    return { room: room.snapshot(), master: item?.master, subtitle: item?.subtitle };
+  }));
+}
 
-sonolus.room.items.push({
-  name: testRoomId,
-  title: testRoom.title,
-  subtitle: { en: "Welcome to multiplayer!", ru: "Добро пожаловать!" },
-  master: { en: "System", ru: "Система" },
-  tags: [],
+// Комнаты из снимка: пользовательские создаются заново, турнирные и тестовая уже открыты выше.
+// Комнаты решённых турнирных матчей не возвращаются.
+roomStore.list().forEach(({ room: snapshot, master, subtitle }) => {
+  let room = rooms.get(snapshot.name);
+  if (!room) {
+    if (snapshot.locked) return;
+    const name = snapshot.name;
+    room = new MultiplayerRoom(name, snapshot.title);
+    // До регистрации: по видимости решается, показывать ли комнату в списке на других узлах
+    room.visibility = snapshot.visibility;
+    registerRoom(room, master, subtitle);
+    room.setIdleCleanup(ROOM_IDLE_TIMEOUT, () => unregisterRoom(name));
+  }
+  room.restore(snapshot);
+});
+
+setInterval(saveRooms, ROOM_SNAPSHOT_INTERVAL).unref();
+setInterval(syncRemoteRooms, ROOM_LIST_SYNC_INTERVAL).unref();
+["SIGINT", "SIGTERM"].forEach((signal) => {
+  process.once(signal, () => {
+    console.log(`[Rooms] ${signal}: saving ${rooms.size} rooms`);
+    saveRooms();
+    // Комнаты освобождаются в реестре; после перезапуска узел заберёт их снова
+    cluster.unhostAll()
+      .catch((e) => console.error("[Cluster] Failed to release rooms:", e))
+      .finally(() => process.exit(0));
+  });
 });
 
 sonolus.serverInfoHandler = () => ({
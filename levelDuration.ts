@@ -0,0 +1,120 @@
+import zlib from 'zlib'
+import { promisify } from 'util'
+import { Sil, LevelItem, LevelData, ServerItemDetails } from '@sonolus/core'
+
+// Chart length of a level, read from its level data on the server it comes from.
+// Charts place entities by beat; #BPM_CHANGE entities turn beats into seconds.
+// Level addresses come from clients, so only trusted servers are fetched from: this one
+// (see trustLevelServer) and the comma separated origins in LEVEL_SERVERS.
+
+const FETCH_TIMEOUT = 10000
+const MAX_CACHED = 500
+// Downloaded bytes per response, and the size of the level data once unzipped
+const MAX_DOWNLOAD_SIZE = 8 * 1024 * 1024
+const MAX_DATA_SIZE = 64 * 1024 * 1024
+
+const gunzip = promisify(zlib.gunzip)
+
+const cache = new Map<string, Promise<number | null>>()
+const trustedOrigins = new Set<string>()
+
+export function trustLevelServer(address: string) {
+    trustedOrigins.add(new URL(address).origin)
+}
+
+for (const address of (process.env.LEVEL_SERVERS ?? '').split(',')) {
+    if (address.trim()) trustLevelServer(address.trim())
+}
+
+function isTrusted(address: string) {
+    try {
+        return trustedOrigins.has(new URL(address).origin)
+    } catch {
+        return false
+    }
+}
+
+// Seconds from the start of the chart to its last entity, null if it can not be worked out
+export function resolveLevelDuration(level: Sil): Promise<number | null> {
+    if (!isTrusted(level.address)) return Promise.resolve(null)
+
+    const key = `${level.address}|${level.name}`
+    const cached = cache.get(key)
+    if (cached) return cached
+
+    const duration = fetchLevelDuration(level).catch(e => {
+        console.warn(`[Levels] Failed to resolve duration of ${level.name}:`, e instanceof Error ? e.message : e);
+        // Failures are not cached so the next round tries again
+        cache.delete(key)
+        return null
+    })
+    if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!)
+    cache.set(key, duration)
+    return duration
+}
+
+async function fetchLevelDuration(level: Sil) {
+    const detailsUrl = new URL(`/sonolus/levels/${encodeURIComponent(level.name)}`, level.address)
+    const { item } = JSON.parse((await download(detailsUrl)).toString('utf-8')) as ServerItemDetails<LevelItem>
+    if (!item.data.url) return null
+
+    // A trusted server may still point elsewhere, the data has to come from the same origin
+    const dataUrl = new URL(item.data.url, detailsUrl)
+    if (dataUrl.origin !== detailsUrl.origin) throw new Error(`Level data is on another origin: ${dataUrl.origin}`)
+
+    const buffer = await download(dataUrl)
+    // Level data is served gzipped unless the server already decoded it
+    const json = buffer[0] === 0x1f && buffer[1] === 0x8b ? await gunzip(buffer, { maxOutputLength: MAX_DATA_SIZE }) : buffer
+    return chartDuration(JSON.parse(json.toString('utf-8')) as LevelData)
+}
+
+// Redirects are refused, they could lead off the trusted origin
+async function download(url: URL) {
+    const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(FETCH_TIMEOUT) })
+    if (!response.ok) throw new Error(`${url} responded ${response.status}`)
+    if (Number(response.headers.get('content-length')) > MAX_DOWNLOAD_SIZE) throw new Error(`${url} is too large`)
+    if (!response.body) return Buffer.alloc(0)
+
+    const chunks: Uint8Array[] = []
+    let size = 0
+    const reader = response.body.getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        size += value.length
+        if (size > MAX_DOWNLOAD_SIZE) {
+            await reader.cancel()
+            throw new Error(`${url} is too large`)
+        }
+        chunks.push(value)
+    }
+    return Buffer.concat(chunks)
+}
+
+function dataValue(entity: LevelData['entities'][number], name: string) {
+    const entry = entity.data.find(d => d.name === name)
+    return entry && 'value' in entry ? entry.value : undefined
+}
+
+export function chartDuration(data: LevelData): number | null {
+    const bpmChanges = data.entities
+        .filter(e => e.archetype === '#BPM_CHANGE')
+        .map(e => ({ beat: dataValue(e, '#BEAT') ?? 0, bpm: dataValue(e, '#BPM') ?? 0 }))
+        .filter(change => change.bpm > 0)
+        .sort((a, b) => a.beat - b.beat)
+    if (bpmChanges.length === 0) return null
+
+    const lastBeat = data.entities.reduce((last, e) => Math.max(last, dataValue(e, '#BEAT') ?? 0), 0)
+
+    // The first BPM also applies before its own beat
+    let time = 0
+    let beat = 0
+    let bpm = bpmChanges[0].bpm
+    for (const change of bpmChanges) {
+        if (change.beat >= lastBeat) break
+        time += (change.beat - beat) * 60 / bpm
+        beat = change.beat
+        bpm = change.bpm
+    }
+    return time + (lastBeat - beat) * 60 / bpm
+}
@@ -0,0 +1,173 @@
+import fs from 'fs';
+import { MatchRecord, SetRecord } from './resultsStore';
+
+export type MatchQuery = {
+    roomName?: string;
+    levelName?: string;
+    // Server the level comes from; the same name on another server is another level
+    levelAddress?: string;
+    userId?: string;
+    // Inclusive timestamp range in ms
+    from?: number;
+    to?: number;
+    offset?: number;
+    limit?: number;
+}
+
+export type MatchPage = {
+    matches: MatchRecord[];
+    total: number;
+    offset: number;
+    limit: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Backend for ResultsStore. Matches are returned newest first.
+export interface MatchStorage {
+    add(record: MatchRecord): void;
+    update(record: MatchRecord): void;
+    get(id: string): MatchRecord | null;
+    query(query: MatchQuery): MatchPage;
+    // Every match, for aggregate statistics
+    all(): MatchRecord[];
+    count(): number;
+    // Finished best-of-N sets, newest first
+    addSet(record: SetRecord): void;
+    getSet(id: string): SetRecord | null;
+    allSets(): SetRecord[];
+    // Removes matches and sets
+    clear(): void;
+}
+
+export function normalizePage(query: MatchQuery) {
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE)));
+    return { offset, limit };
+}
+
+export function matchesQuery(record: MatchRecord, query: MatchQuery) {
+    if (query.roomName !== undefined && record.roomName !== query.roomName) return false;
+    if (query.levelName !== undefined && record.level.name !== query.levelName) return false;
+    if (query.levelAddress !== undefined && record.level.address !== query.levelAddress) return false;
+    if (query.userId !== undefined && !record.results.some(r => r.userId === query.userId)) return false;
+    if (query.from !== undefined && record.timestamp < query.from) return false;
+    if (query.to !== undefined && record.timestamp > query.to) return false;
+    return true;
+}
+
+type LogOperation =
+    | { op: 'add'; record: MatchRecord }
+    | { op: 'update'; record: MatchRecord }
+    | { op: 'addSet'; record: SetRecord }
+    | { op: 'clear' };
+
+// Append-only JSONL log replayed on startup. Every change is one fsynced line, so a crash
+// can at worst leave a truncated last line, which is skipped on load.
+export class JsonlMatchStorage implements MatchStorage {
+    private records: MatchRecord[] = []; // Newest first
+    private byId = new Map<string, MatchRecord>();
+    private sets: SetRecord[] = []; // Newest first
+
+    constructor(private file: string) {
+        this.load();
+    }
+
+    private load() {
+        if (!fs.existsSync(this.file)) return;
+        const content = fs.readFileSync(this.file, 'utf-8');
+        // Terminate a torn last line so the next append starts on a fresh one
+        if (content.length > 0 && !content.endsWith('\n')) fs.appendFileSync(this.file, '\n');
+        const lines = content.split('\n');
+        lines.forEach((line, index) => {
+            if (!line.trim()) return;
+            try {
+                this.apply(JSON.parse(line));
+            } catch (e) {
+                console.error(`Skipping corrupt match log line ${index + 1}:`, e);
+            }
+        });
+    }
+
+    private apply(operation: LogOperation) {
+        switch (operation.op) {
+            case 'add':
+                this.records.unshift(operation.record);
+                this.byId.set(operation.record.id, operation.record);
+                break;
+            case 'update': {
+                const index = this.records.findIndex(r => r.id === operation.record.id);
+                if (index !== -1) this.records[index] = operation.record;
+                this.byId.set(operation.record.id, operation.record);
+                break;
+            }
+            case 'addSet':
+                this.sets.unshift(operation.record);
+                break;
+            case 'clear':
+                this.records = [];
+                this.byId.clear();
+                this.sets = [];
+                break;
+        }
+    }
+
+    private append(operation: LogOperation) {
+        const fd = fs.openSync(this.file, 'a');
+        try {
+            fs.writeSync(fd, JSON.stringify(operation) + '\n');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        this.apply(operation);
+    }
+
+    public add(record: MatchRecord) {
+        this.append({ op: 'add', record });
+    }
+
+    public update(record: MatchRecord) {
+        this.append({ op: 'update', record });
+    }
+
+    public get(id: string) {
+        return this.byId.get(id) ?? null;
+    }
+
+    public query(query: MatchQuery): MatchPage {
+        const { offset, limit } = normalizePage(query);
+        const filtered = this.records.filter(r => matchesQuery(r, query));
+        return {
+            matches: filtered.slice(offset, offset + limit),
+            total: filtered.length,
+            offset,
+            limit
+        };
+    }
+
+    public all() {
+        return this.records;
+    }
+
+    public count() {
+        return this.records.length;
+    }
+
+    public addSet(record: SetRecord) {
+        this.append({ op: 'addSet', record });
+    }
+
+    public getSet(id: string) {
+        return this.sets.find(s => s.id === id) ?? null;
+    }
+
+    public allSets() {
+        return this.sets;
+    }
+
+    public clear() {
+        this.append({ op: 'clear' });
+    }
+}
@@ -1,7 +1,132 @@
 import { WebSocket } from 'ws'
-import { RoomStatus, UserStatus, ChatMessage, GameplayResult, ScoreboardSection, ResultEntry, UserStatusEntry, Suggestion, LevelOptionEntry } from './types'
-import { Sil, ServerForm, LevelItem, RoomUser, ServiceUserId } from '@sonolus/core'
-import { resultsStore } from './resultsStore'
+import { RoomStatus, UserStatus, RoomVisibility, JoinRejection, ScoreboardSection, ResultEntry, Suggestion, GameplayProgress, GameplayResult, LevelOptionEntry, AutoExit, ClientCommand, ServerEvent, UpdateEvent } from './types'
+import { Sil, ServerForm, RoomUser, ServiceUserId } from '@sonolus/core'
+import { resultsStore, levelKey, RecordedResult, SetStanding, MatchRecord, TeamResult } from './resultsStore'
+import { reviewQueue } from './reviewQueue'
+import { reportStore, ChatLogEntry } from './reportStore'
+import { chatFilter } from './chatFilter'
+import { ROOM_OPTIONS, RoomSettings, DEFAULT_ROOM_SETTINGS, parseRoomSettings, serializeRoomSettings } from './roomOptions'
+import { SCORING_MODES, POINTS_SCHEMES, PointsScheme, formatScore, placements, bestReachable } from './scoring'
+import { checkResult } from './antiCheat'
+import { TEAM_NAMES, teamScore, compareTeamScores, balanceTeams } from './teams'
+import { INITIAL_RATING } from './rating'
+import { resolveLevelDuration } from './levelDuration'
+import crypto from 'crypto'
+
+const REPORT_USER_OPTIONS: ServerForm[] = [
+    {
+        type: 'inappropriate_name',
+        title: '#REPORT_REASON_INAPPROPRIATE_NAME',
+        requireConfirmation: true,
+        options: []
+    },
+    {
+        type: 'cheating',
+        title: '#REPORT_REASON_CHEATING',
+        requireConfirmation: true,
+        options: []
+    }
+]
+
+// Chat messages replayed to joining and reconnecting users; the last REPORT_CHAT_CONTEXT go into reports
+const CHAT_HISTORY_SIZE = 50
+const REPORT_CHAT_CONTEXT = 20
+
+// Announced before an automatic start; cancelled if someone stops being ready
+const AUTO_START_COUNTDOWN = 5000
+
+// Live progress: snapshots closer together than this are dropped, and the live standings
+// on the scoreboard are refreshed at most this often
+const PROGRESS_INTERVAL = 250
+const LIVE_SCOREBOARD_INTERVAL = 1000
+
+// Status changes the master may request; everything else is refused
+const STATUS_TRANSITIONS: Record<RoomStatus, RoomStatus[]> = {
+    selecting: ['preparing', 'playing'],
+    preparing: ['selecting', 'playing'],
+    playing: ['selecting']
+}
+
+// How the room reaches a user's client: a socket on this node, or one held by another node (see cluster)
+export type RoomConnection = {
+    readonly isOpen: boolean
+    send(data: string): void
+    close(code: number, reason: string): void
+}
+
+export function socketConnection(ws: WebSocket): RoomConnection {
+    return {
+        get isOpen() {
+            return ws.readyState === WebSocket.OPEN
+        },
+        send: data => ws.send(data),
+        close: (code, reason) => ws.close(code, reason)
+    }
+}
+
+export type RoomUserEntry = {
+    user: RoomUser
+    // null for seats restored after a restart until their user reconnects
+    connection: RoomConnection | null
+    profile: any
+    status: UserStatus
+    // Set while the socket is gone but the seat is still held for a reconnect
+    disconnectedAt: number | null
+    disconnectTimer: any
+    // Spectators watch and chat but never play, hold roles or count towards maxPlayers
+    spectator: boolean
+}
+
+// Best-of-N set; rounds and points are fixed when its first round starts
+type RoomSet = {
+    id: string
+    startedAt: number
+    rounds: number
+    pointsScheme: PointsScheme
+    round: number
+    matchIds: string[]
+    // Kept for players who leave mid-set
+    points: Map<ServiceUserId, { userName: string, points: number }>
+    finished: boolean
+}
+
+// Everything needed to bring a room back after a restart
+export type RoomSnapshot = {
+    name: string
+    title: any
+    creatorId: ServiceUserId | null
+    visibility: RoomVisibility
+    key: string
+    passwordHash: string | null
+    maxPlayers: number
+    allowedUsers: ServiceUserId[] | null
+    locked: boolean
+    status: RoomStatus
+    master: ServiceUserId | null
+    lead: ServiceUserId | null
+    allowOtherServers: boolean
+    autoExit: AutoExit
+    optionValues: string
+    level: Sil | null
+    levelOptions: LevelOptionEntry[]
+    isSuggestionsLocked: boolean
+    suggestions: Suggestion[]
+    suggestionVotes: [ServiceUserId, string][]
+    scoreboardSections: ScoreboardSection[]
+    chatHistory: ChatLogEntry[]
+    mutedUsers: ServiceUserId[]
+    bannedUsers: ServiceUserId[]
+    users: { user: RoomUser, profile: any, status: UserStatus, spectator: boolean }[]
+    teams: [ServiceUserId, number][]
+    set: (Omit<RoomSet, 'points'> & { points: [ServiceUserId, { userName: string, points: number }][] }) | null
+    // Only while a round is being played
+    round: {
+        startedAt: number | null
+        results: ResultEntry[]
+        resultFlags: [ServiceUserId, string[]][]
+        progress: [ServiceUserId, GameplayProgress][]
+    } | null
+}
 
 export class MultiplayerRoom {
     public name: string
@@ -11,44 +136,197 @@ export class MultiplayerRoom {
     public lead: ServiceUserId | null = null
     public allowOtherServers = true
     public isSuggestionsLocked = false
-    public autoExit: 'off' | 'pass' | 'fullCombo' | 'allPerfect' = 'off'
-    public options: ServerForm[] = [{
-        type: 'basic',
-        title: '#SETTINGS',
-        requireConfirmation: false,
-        options: []
-    }]
-    public optionValues = 'type=basic'
+    public autoExit: AutoExit = 'off'
+    public options: ServerForm[] = ROOM_OPTIONS
+    public settings: RoomSettings = { ...DEFAULT_ROOM_SETTINGS }
+    public optionValues = serializeRoomSettings(DEFAULT_ROOM_SETTINGS)
     public level: Sil | null = null
     public levelOptions: LevelOptionEntry[] = []
     public suggestions: Suggestion[] = []
-    public scoreboardDescription = ''
+    public scoreboardDescription = SCORING_MODES[DEFAULT_ROOM_SETTINGS.scoring].description
     public scoreboardSections: ScoreboardSection[] = []
     public results: ResultEntry[] = []
-    public users: { user: RoomUser; ws: WebSocket; profile: any; status: UserStatus }[] = []
+    public users: RoomUserEntry[] = []
+    // How long a dropped user keeps their seat, role and result (0 removes them immediately)
+    public reconnectGracePeriod = 60 * 1000
+    // Profile that created the room through the create form (null for system rooms)
+    public creatorId: ServiceUserId | null = null
+    // Unlisted rooms are hidden from the list, private ones also need the invite key
+    public visibility: RoomVisibility = 'public'
+    // Invite key handed out on creation (sent back by clients as Sonolus-Room-Key). The master
+    // also gets it in chat to share; it is accepted in place of the password.
+    public key: string = crypto.randomUUID()
+    // 0 means no limit
+    public maxPlayers = 0
+    public maxSpectators = 16
+    // Only these profiles may join (tournament rooms), null lets anyone in
+    public allowedUsers: Set<ServiceUserId> | null = null
+    // Level, roles and options are fixed by the server (tournament rooms)
+    public locked = false
+    // Master role moves to an active player after this long without a command from the master (0 disables)
+    public masterAfkTimeout = 3 * 60 * 1000
+    // Round length when the level's chart length can not be resolved, and the margin added on top
+    public defaultRoundDuration = 5 * 60 * 1000
+    public roundTimeoutGrace = 30 * 1000
+    private passwordHash: string | null = null
     private forceFinishTimer: any = null
+    private roundStartedAt: number | null = null
+    // Anti-cheat flags for this round's results, kept server side only
+    private resultFlags = new Map<ServiceUserId, string[]>()
+    // Players whose result this round beat their previous best on the level
+    private newBests = new Set<ServiceUserId>()
+    // Latest live progress of each player this round
+    private progress = new Map<ServiceUserId, GameplayProgress>()
+    // Players still playing when the round timed out or was finished early
+    private dnf: ServiceUserId[] = []
+    private progressAt = new Map<ServiceUserId, number>()
+    private liveScoreboardTimer: any = null
+    // Current set, or the last finished one until the next round starts
+    private set: RoomSet | null = null
+    // userId -> 0-based team in team mode. Players who leave keep their entry until the next round starts.
+    private teams = new Map<ServiceUserId, number>()
+    // voter -> key of the suggestion they voted for
+    private suggestionVotes = new Map<ServiceUserId, string>()
+    private autoPickTimer: any = null
+    // 'minReady' wait before the countdown, and the countdown itself
+    private autoStartWaitTimer: any = null
+    private autoStartTimer: any = null
+    private lastActive = new Map<ServiceUserId, number>()
+    private masterAfkTimer: any = null
+    private mutedUsers = new Set<ServiceUserId>()
+    // Room bans last for the lifetime of the room
+    private bannedUsers = new Set<ServiceUserId>()
+    public chatMaxLength = 200
+    public chatRateLimit = { messages: 5, windowMs: 10 * 1000 }
+    private chatHistory: ChatLogEntry[] = []
+    // userId -> send times inside the current rate limit window
+    private chatTimestamps = new Map<ServiceUserId, number[]>()
+    private idleTimer: any = null
+    private idleTimeout = 0
+    private onIdle: (() => void) | null = null
+    private onMatchFinished: ((match: MatchRecord | null, results: RecordedResult[]) => void) | null = null
+    private onKick: ((userId: ServiceUserId) => void) | null = null
 
     constructor(name: string, title: any) {
         this.name = name
         this.title = title
     }
 
-    public addUser(user: RoomUser, profile: any, ws: WebSocket) {
-        if (this.users.find(u => u.profile.id === profile.id)) {
-            // Already in room, replace connection
-            this.users = this.users.filter(u => u.profile.id !== profile.id)
+    // Calls onIdle once the room has stayed empty for `timeout` ms
+    public setIdleCleanup(timeout: number, onIdle: () => void) {
+        this.idleTimeout = timeout
+        this.onIdle = onIdle
+        if (this.users.length === 0) this.startIdleTimer()
+    }
+
+    // Called after every finished round with the recorded match (null if nothing was recorded)
+    public setMatchListener(listener: (match: MatchRecord | null, results: RecordedResult[]) => void) {
+        this.onMatchFinished = listener
+    }
+
+    // Called for every kicked user, so their join ticket can be revoked
+    public setKickListener(listener: (userId: ServiceUserId) => void) {
+        this.onKick = listener
+    }
+
+    public setSettings(settings: RoomSettings) {
+        this.settings = settings
+        this.optionValues = serializeRoomSettings(settings)
+        this.scoreboardDescription = SCORING_MODES[settings.scoring].description
+    }
+
+    public setPassword(password: string) {
+        this.passwordHash = password ? hashPassword(password) : null
+    }
+
+    public get hasPassword() {
+        return this.passwordHash !== null
+    }
+
+    public get isListed() {
+        return this.visibility === 'public'
+    }
+
+    // Joining needs the password or the invite key
+    public get isRestricted() {
+        return this.visibility === 'private' || this.hasPassword
+    }
+
+    // Checks visibility, password and capacity. Returns null when the user may join.
+    public checkJoin(userId: ServiceUserId | null, key?: string, password?: string, spectator = false): JoinRejection | null {
+        if (userId && this.isBanned(userId)) {
+            return { status: 403, message: 'You are banned from this room' }
+        }
+
+        // Reserved rooms can still be watched
+        if (this.allowedUsers && !spectator && !(userId && this.allowedUsers.has(userId))) {
+            return { status: 403, message: 'This room is reserved for its players' }
         }
 
-        const newUserEntry = { user, profile, ws, status: 'waiting' as UserStatus }
+        const hasKey = !!key && safeEqual(key, this.key)
+        const isCreator = !!userId && userId === this.creatorId
 
-        const masterChanged = !this.master
-        const leadChanged = !this.lead
+        if (this.visibility === 'private' && !hasKey && !isCreator) {
+            return { status: 403, message: 'Room is private' }
+        }
+
+        if (this.passwordHash && !hasKey && !isCreator) {
+            if (!password) return { status: 401, message: 'Password required' }
+            if (!safeEqual(hashPassword(password), this.passwordHash)) {
+                return { status: 403, message: 'Invalid password' }
+            }
+        }
+
+        if (this.isFull(userId, spectator)) {
+            return { status: 409, message: spectator ? 'No more spectators allowed' : 'Room is full' }
+        }
+
+        return null
+    }
+
+    // Users already in the room never count as overflow (they are only reconnecting)
+    public isFull(userId: ServiceUserId | null, spectator = false) {
+        const isMember = !!userId && this.users.some(u => u.profile.id === userId)
+        if (isMember) return false
+        if (spectator) {
+            return this.users.length - this.players.length >= this.maxSpectators
+        }
+        return this.maxPlayers > 0 && this.players.length >= this.maxPlayers
+    }
+
+    // Returning users keep the role they joined with
+    public addUser(user: RoomUser, profile: any, connection: RoomConnection, spectator = false) {
+        this.stopIdleTimer()
+        this.lastActive.set(profile.id, Date.now())
+
+        const existing = this.users.find(u => u.profile.id === profile.id)
+        if (existing) {
+            // Already in room (reconnect or second device), resume the seat
+            this.resumeUser(existing, profile, connection)
+            this.checkAutoStart()
+            return
+        }
+
+        const newUserEntry: RoomUserEntry = {
+            user,
+            profile,
+            connection,
+            status: 'waiting',
+            disconnectedAt: null,
+            disconnectTimer: null,
+            spectator
+        }
+
+        // The creator takes master/lead back when joining their own room
+        const isCreator = this.creatorId === profile.id
+        const masterChanged = !spectator && (!this.master || (isCreator && this.master !== profile.id))
+        const leadChanged = !spectator && (!this.lead || (isCreator && this.lead !== profile.id))
 
         if (masterChanged) this.master = profile.id
         if (leadChanged) this.lead = profile.id
 
         // 1. Send update event to the new user (now with correct master/lead)
-        this.sendUpdate(ws, profile.id, newUserEntry)
+        this.sendUpdate(connection, profile.id, newUserEntry)
 
         // 2. Add to users list
         this.users.push(newUserEntry)
@@ -69,6 +347,169 @@ export class MultiplayerRoom {
         if (leadChanged) {
             this.broadcast({ type: 'updateLead', lead: this.lead }, profile.id)
         }
+
+        // 5. Replay recent chat to the new user
+        this.replayChat(connection)
+        if (masterChanged) this.sendInviteKey()
+
+        if (spectator) {
+            this.announce(`${profile.name} is spectating`)
+            this.refreshScoreboard()
+        } else if (this.teamMode) {
+            this.fillTeams()
+            if (this.status !== 'playing') this.refreshScoreboard()
+        }
+        if (!this.masterAfkTimer) this.scheduleMasterAfkCheck(this.masterAfkTimeout)
+        this.checkAutoStart()
+    }
+
+    private resumeUser(entry: RoomUserEntry, profile: any, connection: RoomConnection) {
+        if (entry.disconnectTimer) clearTimeout(entry.disconnectTimer)
+        entry.disconnectTimer = null
+        entry.disconnectedAt = null
+
+        const previous = entry.connection
+        entry.connection = connection
+        entry.profile = profile
+        // entry.user is kept as is: other clients know this user by the original authentication
+
+        if (previous && previous !== connection && previous.isOpen) {
+            previous.close(4000, 'Replaced by new connection')
+        }
+
+        console.log(`[Room] ${profile.name} resumed their seat in ${this.name}`);
+        this.sendUpdate(connection, profile.id)
+        this.replayChat(connection)
+        if (this.master === profile.id) this.sendInviteKey()
+    }
+
+    // Called when a socket closes. The seat is held for reconnectGracePeriod before removeUser.
+    // Returns false for sockets that were already replaced by a newer connection.
+    public disconnectUser(userId: ServiceUserId, connection: RoomConnection) {
+        const entry = this.users.find(u => u.profile.id === userId)
+        if (!entry || entry.connection !== connection) return false
+
+        if (this.reconnectGracePeriod <= 0) {
+            this.removeUser(userId)
+            return true
+        }
+
+        this.holdSeat(entry)
+        console.log(`[Room] ${entry.profile.name} disconnected, holding seat for ${this.reconnectGracePeriod}ms`);
+        this.checkAutoStart()
+        return true
+    }
+
+    private holdSeat(entry: RoomUserEntry) {
+        entry.disconnectedAt = Date.now()
+        if (entry.disconnectTimer) clearTimeout(entry.disconnectTimer)
+        entry.disconnectTimer = setTimeout(() => {
+            entry.disconnectTimer = null
+            if (entry.disconnectedAt === null) return
+            console.log(`[Room] Reconnect grace expired for ${entry.profile.name}`);
+            this.removeUser(entry.profile.id)
+        }, this.reconnectGracePeriod)
+    }
+
+    public snapshot(): RoomSnapshot {
+        return {
+            name: this.name,
+            title: this.title,
+            creatorId: this.creatorId,
+            visibility: this.visibility,
+            key: this.key,
+            passwordHash: this.passwordHash,
+            maxPlayers: this.maxPlayers,
+            allowedUsers: this.allowedUsers ? Array.from(this.allowedUsers) : null,
+            locked: this.locked,
+            status: this.status,
+            master: this.master,
+            lead: this.lead,
+            allowOtherServers: this.allowOtherServers,
+            autoExit: this.autoExit,
+            optionValues: this.optionValues,
+            level: this.level,
+            levelOptions: this.levelOptions,
+            isSuggestionsLocked: this.isSuggestionsLocked,
+            suggestions: this.suggestions,
+            suggestionVotes: Array.from(this.suggestionVotes),
+            scoreboardSections: this.scoreboardSections,
+            chatHistory: this.chatHistory,
+            mutedUsers: Array.from(this.mutedUsers),
+            bannedUsers: Array.from(this.bannedUsers),
+            users: this.users.map(u => ({ user: u.user, profile: u.profile, status: u.status, spectator: u.spectator })),
+            teams: Array.from(this.teams),
+            set: this.set ? { ...this.set, points: Array.from(this.set.points) } : null,
+            round: this.status === 'playing' ? {
+                startedAt: this.roundStartedAt,
+                results: this.results,
+                resultFlags: Array.from(this.resultFlags),
+                progress: Array.from(this.progress)
+            } : null
+        }
+    }
+
+    // Brings back a snapshot taken before a restart. Users get their seats held for the reconnect
+    // grace period; a round that was being played is recorded as aborted.
+    public restore(snapshot: RoomSnapshot) {
+        this.title = snapshot.title
+        this.creatorId = snapshot.creatorId
+        this.visibility = snapshot.visibility
+        this.key = snapshot.key
+        this.passwordHash = snapshot.passwordHash
+        this.maxPlayers = snapshot.maxPlayers
+        this.allowedUsers = snapshot.allowedUsers ? new Set(snapshot.allowedUsers) : null
+        this.locked = snapshot.locked
+        this.status = snapshot.status
+        this.master = snapshot.master
+        this.lead = snapshot.lead
+        this.allowOtherServers = snapshot.allowOtherServers
+        this.autoExit = snapshot.autoExit
+        this.setSettings(parseRoomSettings(snapshot.optionValues, DEFAULT_ROOM_SETTINGS) ?? DEFAULT_ROOM_SETTINGS)
+        this.level = snapshot.level
+        this.levelOptions = snapshot.levelOptions
+        this.isSuggestionsLocked = snapshot.isSuggestionsLocked
+        this.suggestions = snapshot.suggestions
+        this.suggestionVotes = new Map(snapshot.suggestionVotes)
+        this.scoreboardSections = snapshot.scoreboardSections
+        this.chatHistory = snapshot.chatHistory
+        this.mutedUsers = new Set(snapshot.mutedUsers)
+        this.bannedUsers = new Set(snapshot.bannedUsers)
+        this.teams = new Map(snapshot.teams)
+        this.set = snapshot.set ? { ...snapshot.set, points: new Map(snapshot.set.points) } : null
+
+        if (this.reconnectGracePeriod > 0) {
+            this.stopIdleTimer()
+            this.users = snapshot.users.map(u => ({
+                ...u,
+                connection: null,
+                disconnectedAt: null,
+                disconnectTimer: null
+            }))
+            this.users.forEach(u => {
+                this.lastActive.set(u.profile.id, Date.now())
+                this.holdSeat(u)
+            })
+            this.scheduleMasterAfkCheck(this.masterAfkTimeout)
+        } else {
+            this.master = null
+            this.lead = null
+        }
+
+        if (snapshot.round) {
+            this.roundStartedAt = snapshot.round.startedAt
+            this.results = snapshot.round.results
+            this.resultFlags = new Map(snapshot.round.resultFlags)
+            this.progress = new Map(snapshot.round.progress)
+            this.dnf = this.players
+                .filter(u => u.status === 'playing' && !this.results.some(r => r.userId === u.profile.id))
+                .map(u => u.profile.id)
+            this.announce('The server restarted during the round, it was recorded as aborted')
+            this.finishMatch(true)
+        } else if (this.suggestions.length > 0) {
+            this.startAutoPick()
+        }
+        console.log(`[Room] Restored ${this.name} with ${this.users.length} held seats`);
     }
 
     public removeUser(userId: ServiceUserId) {
@@ -77,13 +518,21 @@ export class MultiplayerRoom {
 
         const removedEntry = this.users[userIndex]
         this.users.splice(userIndex, 1)
+        if (removedEntry.disconnectTimer) clearTimeout(removedEntry.disconnectTimer)
+        this.chatTimestamps.delete(userId)
+        this.lastActive.delete(userId)
+        this.progressAt.delete(userId)
+        if (this.suggestionVotes.delete(userId)) this.broadcastSuggestions()
 
+        // Prefer handing roles to someone who is actually connected; spectators never get them
+        const successor = this.players.find(u => u.disconnectedAt === null) || this.players[0]
         if (this.master === userId) {
-            this.master = this.users.length > 0 ? this.users[0].profile.id : null
+            this.master = successor ? successor.profile.id : null
             this.broadcast({ type: 'updateMaster', master: this.master })
+            this.sendInviteKey()
         }
         if (this.lead === userId) {
-            this.lead = this.users.length > 0 ? this.users[0].profile.id : null
+            this.lead = successor ? successor.profile.id : null
             this.broadcast({ type: 'updateLead', lead: this.lead })
         }
 
@@ -94,78 +543,197 @@ export class MultiplayerRoom {
                 signature: removedEntry.user.signature
             }
         })
+
+        if (this.users.length === 0) {
+            this.cancelAutoStart()
+            if (this.masterAfkTimer) clearTimeout(this.masterAfkTimer)
+            this.masterAfkTimer = null
+            this.startIdleTimer()
+        } else if (removedEntry.spectator) {
+            this.refreshScoreboard()
+        } else if (this.status === 'playing' && this.allPlayersFinished()) {
+            console.log('[Room] Remaining players finished. Finishing match.');
+            this.finishMatch();
+        } else if (this.isOutcomeDecided()) {
+            this.finishEarly()
+        }
+    }
+
+    private allPlayersFinished() {
+        return !this.players.some(u => u.status === 'playing' && !this.results.find(r => r.userId === u.profile.id))
     }
 
-    public handleCommand(userId: ServiceUserId, command: any) {
+    private startIdleTimer() {
+        if (!this.onIdle || this.idleTimeout <= 0) return
+        this.stopIdleTimer()
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = null
+            if (this.users.length === 0 && this.onIdle) {
+                console.log(`[Room] ${this.name} idle for ${this.idleTimeout}ms. Closing.`);
+                this.onIdle()
+            }
+        }, this.idleTimeout)
+    }
+
+    private stopIdleTimer() {
+        if (this.idleTimer) clearTimeout(this.idleTimer)
+        this.idleTimer = null
+    }
+
+    public handleCommand(userId: ServiceUserId, command: ClientCommand) {
         console.log(`[Room] Handle command: ${command.type} from ${userId}`);
+        this.lastActive.set(userId, Date.now())
         switch (command.type) {
             case 'addChatMessage':
+                if (this.mutedUsers.has(userId)) {
+                    this.sendError(userId, command.type, 'You are muted in this room')
+                    break
+                }
+                if (command.message.type === 'text' && Array.from(command.message.value).length > this.chatMaxLength) {
+                    this.sendError(userId, command.type, `Message is longer than ${this.chatMaxLength} characters`)
+                    break
+                }
+                if (!this.allowChat(userId)) {
+                    this.sendError(userId, command.type, 'You are sending messages too fast')
+                    break
+                }
+
+                // Quick messages are fixed phrases, only free text goes through the filter
+                const value = command.message.type === 'text' ? chatFilter.mask(command.message.value) : command.message.value
+                this.logChat(userId, command.message.type, value, command.message.value)
                 this.broadcast({
                     type: 'addChatMessage',
                     message: {
-                        ...command.message,
+                        type: command.message.type,
+                        value,
                         userId
                     }
                 })
                 break
             case 'updateUserStatus':
+                if (this.isSpectator(userId) && command.status !== 'waiting') {
+                    this.sendError(userId, command.type, 'Spectators do not play')
+                    break
+                }
+                if (command.status === 'playing' && this.status !== 'playing') {
+                    this.sendError(userId, command.type, 'Round is not in progress')
+                    break
+                }
                 this.updateUserStatus(userId, command.status)
                 break
             case 'updateStatus':
                 console.log(`[Room] Attempting updateStatus. Master: ${this.master}, Requestor: ${userId}, New Status: ${command.status}`);
                 if (this.master === userId) {
+                    if (!STATUS_TRANSITIONS[this.status].includes(command.status)) {
+                        this.sendError(userId, command.type, `Cannot change status from ${this.status} to ${command.status}`)
+                        break
+                    }
+                    if (command.status === 'playing' && !this.level) {
+                        this.sendError(userId, command.type, 'No level selected')
+                        break
+                    }
+                    if (command.status === 'playing' && this.missingPlayers().length > 0) {
+                        this.sendError(userId, command.type, 'Every player of this match has to be in the room')
+                        break
+                    }
+                    if (command.status === 'playing') {
+                        this.startRound()
+                        break
+                    }
                     this.status = command.status
                     this.broadcast({ type: 'updateStatus', status: this.status })
-                    if (this.status === 'playing') {
-                        console.log('[Room] Match started! Broadcasting startRound...');
-                        this.results = []
-
-                        // Set all skipped users to waiting
-                        this.users.forEach(u => {
-                            if (u.status === 'skipped') u.status = 'waiting';
-                        });
-
-                        this.broadcast({
-                            type: 'startRound',
-                            state: 'round-' + Date.now(),
-                            seed: Math.random()
-                        })
-
-                        // Force finish after 5 minutes
-                        if (this.forceFinishTimer) clearTimeout(this.forceFinishTimer);
-                        this.forceFinishTimer = setTimeout(() => {
-                            if (this.status === 'playing') {
-                                console.log('[Room] Match timeout. Force finishing.');
-                                this.finishMatch();
-                            }
-                        }, 300000);
-                    } else if (this.status === 'selecting') {
+                    if (this.status === 'selecting') {
                         if (this.forceFinishTimer) clearTimeout(this.forceFinishTimer);
                         this.forceFinishTimer = null;
                     }
+                    this.checkAutoStart()
                 } else {
                     console.warn(`[Room] updateStatus ignored: Requestor ${userId} is not master ${this.master}`);
+                    this.sendError(userId, command.type, 'Only the master can change the room status')
                 }
                 break
             case 'updateLevel':
+                if (this.locked) {
+                    this.sendError(userId, command.type, 'The level is fixed in this room')
+                    break
+                }
                 if (this.lead === userId && this.status === 'selecting') {
-                    this.level = command.level
-                    this.levelOptions = []
-                    this.broadcast({ type: 'updateLevel', level: this.level })
+                    // The lead's own pick overrides a running vote
+                    this.stopAutoPick()
+                    this.setLevel(command.level)
                 }
                 break
-            case 'addSuggestion':
-                if (!this.isSuggestionsLocked) {
-                    this.suggestions.push({ userId, level: command.level })
-                    this.broadcast({ type: 'updateSuggestions', suggestions: this.suggestions })
+            case 'updateLevelOption':
+                if (this.locked) {
+                    this.sendError(userId, command.type, 'The level is fixed in this room')
+                    break
                 }
+                if (this.lead !== userId || this.status === 'playing') {
+                    this.sendError(userId, command.type, 'Only the lead can change level options between rounds')
+                    break
+                }
+                this.setLevelOption(command.levelOption)
+                break
+            case 'addSuggestion':
+                this.addSuggestion(userId, command.level)
                 break
             case 'clearSuggestions':
                 if (this.lead === userId || this.master === userId) {
-                    this.suggestions = []
-                    this.broadcast({ type: 'clearSuggestions' })
+                    this.clearSuggestions()
                 }
                 break
+            case 'updateIsSuggestionsLocked':
+                if (this.lead !== userId && this.master !== userId) {
+                    this.sendError(userId, command.type, 'Only the master or lead can lock suggestions')
+                    break
+                }
+                this.isSuggestionsLocked = command.isSuggestionsLocked
+                this.broadcast({ type: 'updateIsSuggestionsLocked', isSuggestionsLocked: this.isSuggestionsLocked })
+                break
+            case 'removeSuggestion': {
+                const key = suggestionKey(command.suggestion)
+                const suggestion = this.suggestions.find(s => suggestionKey(s) === key)
+                if (!suggestion) {
+                    this.sendError(userId, command.type, 'Suggestion not found')
+                    break
+                }
+                // Users may withdraw their own suggestions, the master and lead any of them
+                if (suggestion.userId !== userId && this.lead !== userId && this.master !== userId) {
+                    this.sendError(userId, command.type, 'You can only remove your own suggestions')
+                    break
+                }
+                this.removeSuggestion(key)
+                break
+            }
+            case 'swapSuggestions': {
+                if (this.lead !== userId && this.master !== userId) {
+                    this.sendError(userId, command.type, 'Only the master or lead can reorder suggestions')
+                    break
+                }
+                const a = this.suggestions.findIndex(s => suggestionKey(s) === suggestionKey(command.suggestionA))
+                const b = this.suggestions.findIndex(s => suggestionKey(s) === suggestionKey(command.suggestionB))
+                if (a === -1 || b === -1) {
+                    this.sendError(userId, command.type, 'Suggestion not found')
+                    break
+                }
+                // The list is re-sorted by votes on the next change, so a swap lasts only between equal votes
+                const suggestionA = this.suggestions[a]
+                const suggestionB = this.suggestions[b]
+                this.suggestions[a] = suggestionB
+                this.suggestions[b] = suggestionA
+                this.broadcast({ type: 'swapSuggestions', suggestionA, suggestionB })
+                break
+            }
+            case 'voteSuggestion': {
+                const key = suggestionKey(command.suggestion)
+                if (!this.suggestions.some(s => suggestionKey(s) === key)) {
+                    this.sendError(userId, command.type, 'Suggestion not found')
+                    break
+                }
+                this.suggestionVotes.set(userId, key)
+                this.broadcastSuggestions()
+                break
+            }
             case 'updateAutoExit':
                 if (this.lead === userId || this.master === userId) {
                     this.autoExit = command.autoExit
@@ -173,19 +741,69 @@ export class MultiplayerRoom {
                 }
                 break
             case 'updateMaster':
+                if (this.locked) {
+                    this.sendError(userId, command.type, 'Roles are fixed in this room')
+                    break
+                }
                 if (this.master === userId) {
+                    if (!this.isMember(command.master)) {
+                        this.sendError(userId, command.type, 'New master is not in the room')
+                        break
+                    }
                     this.master = command.master
                     this.broadcast({ type: 'updateMaster', master: this.master })
+                    this.sendInviteKey()
                 }
                 break
             case 'updateLead':
+                if (this.locked) {
+                    this.sendError(userId, command.type, 'Roles are fixed in this room')
+                    break
+                }
                 if (this.master === userId) {
+                    if (!this.isMember(command.lead)) {
+                        this.sendError(userId, command.type, 'New lead is not in the room')
+                        break
+                    }
                     this.lead = command.lead
                     this.broadcast({ type: 'updateLead', lead: this.lead })
                 }
                 break
+            case 'updateOptionValues':
+                if (this.master !== userId) {
+                    this.sendError(userId, command.type, 'Only the master can change room options')
+                    break
+                }
+                if (this.locked) {
+                    this.sendError(userId, command.type, 'Options are fixed in this room')
+                    break
+                }
+                this.updateOptionValues(userId, command.optionValues)
+                break
+            case 'assignTeam':
+                if (this.checkTeamChange(userId, command.type)) {
+                    if (!this.isMember(command.userId)) {
+                        this.sendError(userId, command.type, 'Player is not in the room')
+                        break
+                    }
+                    if (command.team >= this.settings.teams) {
+                        this.sendError(userId, command.type, 'No such team')
+                        break
+                    }
+                    this.teams.set(command.userId, command.team)
+                    this.refreshScoreboard()
+                }
+                break
+            case 'balanceTeams':
+                if (this.checkTeamChange(userId, command.type)) {
+                    this.balanceTeams()
+                    this.refreshScoreboard()
+                }
+                break
             case 'resetScoreboard':
                 if (this.master === userId) {
+                    // Also abandons a set in progress
+                    this.set = null
                     this.scoreboardSections = [{
                         title: '#SCOREBOARD',
                         icon: 'crown',
@@ -199,43 +817,668 @@ export class MultiplayerRoom {
                 break;
             case 'startGameplay':
                 console.log(`[Room] startGameplay from ${userId}`);
+                // Only players of the running round can hold it open
+                if (!this.expectsResult(userId)) break
                 this.updateUserStatus(userId, 'playing');
                 break;
-            case 'finishGameplay':
+            case 'finishGameplay': {
                 console.log(`[Room] finishGameplay from ${userId}`);
-                // Record results
-                if (command.result) {
-                    const user = this.users.find(u => u.profile.id === userId);
-                    const userName = user ? user.profile.name : "Unknown";
-
-                    this.results.push({ userId, result: command.result, userName })
-                    this.broadcast({ type: 'addResult', result: { userId, result: command.result, userName } })
-
-                    // Check if all playing users have finished
-                    const activePlayers = this.users.filter(u => u.status === 'playing' && !this.results.find(r => r.userId === u.profile.id))
-                    if (activePlayers.length === 0) {
-                        console.log('[Room] All players finished. Finishing match.');
-                        this.finishMatch();
-                    } else {
-                        // For the user who just finished, send a full UpdateEvent
-                        const user = this.users.find(u => u.profile.id === userId);
-                        if (user) {
-                            console.log(`[Room] Individual finished gameplay, sending UpdateEvent to ${user.profile.name}`);
-                            this.sendUpdate(user.ws, userId);
-                        }
-                    }
+                if (!this.expectsResult(userId)) {
+                    this.sendError(userId, command.type, 'No round result expected')
+                    break
+                }
+                // A result short of the autoExit goal is one the player would have been exited with
+                const result: GameplayResult = meetsAutoExit(this.autoExit, command.result.grade)
+                    ? command.result
+                    : { ...command.result, grade: 'fail' }
+                this.submitResult(userId, result, command.result)
+                break
+            }
+            case 'updateProgress': {
+                if (!this.expectsResult(userId)) break
+                // Counts only grow, so a dropped snapshot is covered by the next one
+                const now = Date.now()
+                if (now - (this.progressAt.get(userId) ?? 0) < PROGRESS_INTERVAL) break
+                this.progressAt.set(userId, now)
+
+                this.progress.set(userId, command.progress)
+                if (autoExitFailed(this.autoExit, command.progress)) {
+                    console.log(`[Room] ${userId} failed the ${this.autoExit} auto exit`);
+                    this.submitResult(userId, failResult(command.progress, command.progress.totalCount), null)
+                } else if (this.isOutcomeDecided()) {
+                    this.finishEarly()
+                } else {
+                    this.broadcast({ type: 'updateProgress', userId, progress: command.progress }, userId)
+                    this.scheduleLiveScoreboard()
                 }
                 break
+            }
+            case 'forfeit':
+                if (!this.expectsResult(userId)) {
+                    this.sendError(userId, command.type, 'No round to forfeit')
+                    break
+                }
+                this.submitResult(userId, failResult(this.progress.get(userId), this.roundNoteCount()), null)
+                break
+            case 'reportUser':
+                this.reportUser(userId, command.userId, command.optionValues)
+                break
+            case 'removeUser':
+            case 'banUser':
+            case 'muteUser':
+            case 'unmuteUser':
+                this.moderate(userId, command.type, command.userId)
+                break
+        }
+    }
+
+    private updateOptionValues(userId: ServiceUserId, optionValues: string) {
+        const settings = parseRoomSettings(optionValues, this.settings)
+        if (!settings) {
+            this.sendError(userId, 'updateOptionValues', 'Invalid room options')
+            return
+        }
+
+        const scoringChanged = settings.scoring !== this.settings.scoring
+        const teamsChanged = settings.teams !== this.settings.teams
+            || settings.teamScoring !== this.settings.teamScoring
+            || settings.teamBestCount !== this.settings.teamBestCount
+        this.setSettings(settings)
+        this.broadcast({ type: 'updateOptionValues', optionValues: this.optionValues })
+
+        if (scoringChanged) {
+            this.broadcast({ type: 'updateScoreboardDescription', scoreboardDescription: this.scoreboardDescription })
+        }
+        if (teamsChanged) this.fillTeams()
+        // Re-rank the last round under the new mode or teams
+        if ((scoringChanged || teamsChanged) && this.status !== 'playing') this.refreshScoreboard()
+        this.checkAutoStart()
+    }
+
+    private setLevel(level: Sil) {
+        this.level = level
+        this.levelOptions = []
+        this.broadcast({ type: 'updateLevel', level: this.level })
+        // Warms the cache for the round timeout
+        resolveLevelDuration(level)
+        this.checkAutoStart()
+    }
+
+    // Options the level's engine offers; entries stay sorted by index
+    private setLevelOption(levelOption: LevelOptionEntry) {
+        this.levelOptions = [...this.levelOptions.filter(o => o.index !== levelOption.index), levelOption]
+            .sort((a, b) => a.index - b.index)
+        this.broadcast({ type: 'updateLevelOption', levelOption })
+    }
+
+    private addSuggestion(userId: ServiceUserId, level: Sil) {
+        if (this.isSuggestionsLocked) {
+            this.sendError(userId, 'addSuggestion', 'Suggestions are locked')
+            return
+        }
+        if (this.suggestions.some(s => levelKey(s.level) === levelKey(level))) {
+            this.sendError(userId, 'addSuggestion', 'This level is already suggested, vote for it instead')
+            return
+        }
+        if (this.suggestions.filter(s => s.userId === userId).length >= this.settings.suggestionLimit) {
+            this.sendError(userId, 'addSuggestion', `You can have at most ${this.settings.suggestionLimit} suggestions`)
+            return
         }
+
+        this.suggestions.push({ userId, level })
+        this.broadcastSuggestions()
+        this.startAutoPick()
+    }
+
+    private removeSuggestion(key: string) {
+        const index = this.suggestions.findIndex(s => suggestionKey(s) === key)
+        if (index === -1) return false
+        this.suggestions.splice(index, 1)
+        this.suggestionVotes.forEach((vote, voter) => {
+            if (vote === key) this.suggestionVotes.delete(voter)
+        })
+        if (this.suggestions.length === 0) this.stopAutoPick()
+        this.broadcastSuggestions()
+        return true
+    }
+
+    private clearSuggestions() {
+        this.suggestions = []
+        this.suggestionVotes.clear()
+        this.stopAutoPick()
+        this.broadcast({ type: 'clearSuggestions' })
+    }
+
+    private voteCount(suggestion: Suggestion) {
+        const key = suggestionKey(suggestion)
+        return Array.from(this.suggestionVotes.values()).filter(vote => vote === key).length
+    }
+
+    // The list is kept sorted by votes (stable, so ties stay in suggestion order)
+    private broadcastSuggestions() {
+        this.suggestions.sort((a, b) => this.voteCount(b) - this.voteCount(a))
+        this.broadcast({ type: 'updateSuggestions', suggestions: this.suggestions })
+    }
+
+    // Starts the voting timer if auto-pick is on and none is running
+    private startAutoPick() {
+        if (this.settings.autoPick === 'off' || this.locked || this.autoPickTimer) return
+        if (this.status !== 'selecting' || this.suggestions.length === 0) return
+
+        this.announce(`Voting for the next level ends in ${this.settings.autoPickTime} seconds`)
+        this.autoPickTimer = setTimeout(() => {
+            this.autoPickTimer = null
+            this.autoPickLevel()
+        }, this.settings.autoPickTime * 1000)
+    }
+
+    private stopAutoPick() {
+        if (this.autoPickTimer) clearTimeout(this.autoPickTimer)
+        this.autoPickTimer = null
+    }
+
+    private autoPickLevel() {
+        if (this.status !== 'selecting' || this.suggestions.length === 0 || this.settings.autoPick === 'off') return
+
+        const pick = this.settings.autoPick === 'random'
+            ? this.suggestions[Math.floor(Math.random() * this.suggestions.length)]
+            : this.suggestions.reduce((best, s) => this.voteCount(s) > this.voteCount(best) ? s : best)
+        const votes = this.voteCount(pick)
+        this.setLevel(pick.level)
+        this.announce(`Next level: ${pick.level.name} (${votes} ${votes === 1 ? 'vote' : 'votes'})`)
+        this.clearSuggestions()
+    }
+
+    public get teamMode() {
+        return this.settings.teams > 1
     }
 
-    private finishMatch() {
+    private checkTeamChange(userId: ServiceUserId, command: string) {
+        if (this.master !== userId) {
+            this.sendError(userId, command, 'Only the master can change teams')
+            return false
+        }
+        if (!this.teamMode) {
+            this.sendError(userId, command, 'Team mode is off')
+            return false
+        }
+        if (this.status === 'playing') {
+            this.sendError(userId, command, 'Teams cannot change during a round')
+            return false
+        }
+        return true
+    }
+
+    // Drops players who left and puts everyone without a valid team into the smallest one
+    private fillTeams() {
+        if (!this.teamMode) {
+            this.teams.clear()
+            return
+        }
+        this.teams.forEach((_, id) => {
+            if (!this.players.some(u => u.profile.id === id)) this.teams.delete(id)
+        })
+        this.players.forEach(u => {
+            const team = this.teams.get(u.profile.id)
+            if (team !== undefined && team < this.settings.teams) return
+            const sizes = Array.from({ length: this.settings.teams }, (_, t) =>
+                Array.from(this.teams.values()).filter(other => other === t).length)
+            this.teams.set(u.profile.id, sizes.indexOf(Math.min(...sizes)))
+        })
+    }
+
+    private balanceTeams() {
+        this.teams = balanceTeams(this.players.map(u => ({
+            id: u.profile.id as ServiceUserId,
+            rating: resultsStore.getRating(u.profile.id)?.rating ?? INITIAL_RATING
+        })), this.settings.teams)
+    }
+
+    private announceTeams() {
+        const names = new Map(this.players.map(u => [u.profile.id, u.profile.name || 'Unknown']))
+        this.announce('Teams: ' + this.teamResults()
+            .map(team => `${team.name} — ${team.members.map(id => names.get(id)).join(', ')}`)
+            .join('; '))
+    }
+
+    // Teams with at least one member, in team order
+    private teamResults(): TeamResult[] {
+        const mode = this.settings.scoring
+        const teams = TEAM_NAMES.slice(0, this.settings.teams).map((name, team) => ({
+            team,
+            name,
+            members: Array.from(this.teams).filter(([, t]) => t === team).map(([id]) => id as string),
+            score: teamScore(mode, this.settings.teamScoring, this.settings.teamBestCount,
+                this.results.filter(r => this.teams.get(r.userId) === team).map(r => r.result)),
+            scoring: mode,
+            aggregation: this.settings.teamScoring,
+            place: 0
+        })).filter(t => t.members.length > 0)
+        teams.forEach(t => t.place = teams.filter(other => compareTeamScores(mode, other.score, t.score) < 0).length)
+        return teams
+    }
+
+    private reportUser(reporterId: ServiceUserId, targetId: ServiceUserId, optionValues: string) {
+        const target = this.users.find(u => u.profile.id === targetId)
+        if (!target || reporterId === targetId) {
+            this.sendError(reporterId, 'reportUser', 'Reported user is not in the room')
+            return
+        }
+
+        const reason = new URLSearchParams(optionValues).get('type')
+        if (!reason || !REPORT_USER_OPTIONS.some(o => o.type === reason)) {
+            this.sendError(reporterId, 'reportUser', 'Unknown report reason')
+            return
+        }
+
+        console.log(`[Room] ${reporterId} reported ${targetId} for ${reason}`);
+        const reporter = this.users.find(u => u.profile.id === reporterId)
+        const { action } = reportStore.add({
+            reporterId,
+            reporterName: reporter?.profile.name,
+            targetId,
+            targetName: target.profile.name,
+            roomName: this.resolvedTitle,
+            reason,
+            chatContext: this.chatHistory.slice(-REPORT_CHAT_CONTEXT)
+        })
+
+        if (action === 'mute') {
+            this.muteUser(targetId)
+        } else if (action === 'kick') {
+            this.kickUser(targetId, 'Removed after repeated reports')
+        }
+
+        if (reason === 'cheating') {
+            reviewQueue.add({
+                source: 'report',
+                userId: targetId,
+                userName: target.profile.name,
+                roomName: this.resolvedTitle,
+                reasons: ['reported_cheating'],
+                reportedBy: reporterId
+            })
+        }
+    }
+
+    // Master-only moderation commands
+    private moderate(userId: ServiceUserId, type: 'removeUser' | 'banUser' | 'muteUser' | 'unmuteUser', targetId: ServiceUserId) {
+        if (this.locked) {
+            this.sendError(userId, type, 'Only an admin can moderate this room')
+            return
+        }
+        if (this.master !== userId) {
+            this.sendError(userId, type, 'Only the master can moderate the room')
+            return
+        }
+        if (targetId === userId) {
+            this.sendError(userId, type, 'Cannot moderate yourself')
+            return
+        }
+        if (!this.isMember(targetId) && type !== 'banUser') {
+            this.sendError(userId, type, 'User is not in the room')
+            return
+        }
+
+        switch (type) {
+            case 'removeUser':
+                this.kickUser(targetId, 'Kicked by the room master')
+                break
+            case 'banUser':
+                this.banUser(targetId)
+                break
+            case 'muteUser':
+                this.muteUser(targetId)
+                break
+            case 'unmuteUser':
+                this.unmuteUser(targetId)
+                break
+        }
+    }
+
+    public banUser(userId: ServiceUserId) {
+        this.bannedUsers.add(userId)
+        console.log(`[Room] ${userId} banned from ${this.name}`);
+        this.kickUser(userId, 'Banned from this room')
+    }
+
+    public isBanned(userId: ServiceUserId) {
+        return this.bannedUsers.has(userId)
+    }
+
+    public muteUser(userId: ServiceUserId) {
+        if (this.mutedUsers.has(userId)) return
+        this.mutedUsers.add(userId)
+        console.log(`[Room] ${userId} muted in ${this.name}`);
+        this.sendError(userId, null, 'You have been muted in this room')
+    }
+
+    public unmuteUser(userId: ServiceUserId) {
+        this.mutedUsers.delete(userId)
+    }
+
+    // Closes the user's socket and frees their seat without a reconnect grace period
+    public kickUser(userId: ServiceUserId, reason: string) {
+        const entry = this.users.find(u => u.profile.id === userId)
+        if (!entry) return
+        console.log(`[Room] Kicking ${entry.profile.name} from ${this.name}: ${reason}`);
+        this.removeUser(userId)
+        if (this.onKick) this.onKick(userId)
+        if (entry.connection?.isOpen) entry.connection.close(4001, reason)
+    }
+
+    // Sliding window rate limit per user
+    private allowChat(userId: ServiceUserId) {
+        const now = Date.now()
+        const recent = (this.chatTimestamps.get(userId) || []).filter(t => now - t < this.chatRateLimit.windowMs)
+        if (recent.length >= this.chatRateLimit.messages) {
+            this.chatTimestamps.set(userId, recent)
+            return false
+        }
+        recent.push(now)
+        this.chatTimestamps.set(userId, recent)
+        return true
+    }
+
+    private logChat(userId: ServiceUserId | null, type: ChatLogEntry['type'], value: string, original = value) {
+        const user = this.users.find(u => u.profile.id === userId)
+        this.chatHistory.push({
+            userId,
+            userName: user?.profile.name,
+            type,
+            value,
+            ...(original !== value ? { original } : {}),
+            timestamp: Date.now()
+        })
+        if (this.chatHistory.length > CHAT_HISTORY_SIZE) this.chatHistory.shift()
+    }
+
+    // Replays the masked text only
+    private replayChat(connection: RoomConnection) {
+        this.chatHistory.forEach(m => this.send(connection, {
+            type: 'addChatMessage',
+            message: { userId: m.userId, type: m.type, value: m.value }
+        }))
+    }
+
+    // submitted is the result as the client sent it, which the anti-cheat checks even when it is
+    // stored downgraded. It is null for results built by the server (forfeits, auto exits), which
+    // skip the anti-cheat and PB checks.
+    private submitResult(userId: ServiceUserId, result: GameplayResult, submitted: GameplayResult | null) {
+        const user = this.users.find(u => u.profile.id === userId);
+        const userName = user ? user.profile.name : "Unknown";
+
+        if (submitted) {
+            const flags = checkResult(submitted, {
+                playTime: this.roundStartedAt ? Date.now() - this.roundStartedAt : null
+            })
+            if (flags.length > 0) {
+                console.warn(`[Room] Suspicious result from ${userName}: ${flags.join(', ')}`);
+                this.resultFlags.set(userId, flags)
+            } else if (this.level) {
+                const best = resultsStore.getPersonalBest(userId, this.level)
+                if (!best || result.arcadeScore > best.result.arcadeScore) {
+                    this.newBests.add(userId)
+                }
+            }
+        }
+
+        this.results.push({ userId, result, userName })
+        this.broadcast({ type: 'addResult', result: { userId, result, userName } })
+
+        // Check if all playing users have finished
+        if (this.allPlayersFinished()) {
+            console.log('[Room] All players finished. Finishing match.');
+            this.finishMatch();
+        } else if (this.isOutcomeDecided()) {
+            this.finishEarly()
+        } else if (user) {
+            // For the user who just finished, send a full UpdateEvent
+            console.log(`[Room] Individual finished gameplay, sending UpdateEvent to ${user.profile.name}`);
+            this.sendUpdate(user.connection, userId);
+        }
+    }
+
+    // The outcome is every placement of the round. It is decided once a single player is still playing
+    // and even their best reachable result ranks below every finished one, so the early finish changes
+    // no rating or set points. Free-for-all only: team totals move with every member.
+    private isOutcomeDecided() {
+        if (this.status !== 'playing' || this.teamMode || this.results.length === 0) return false
+        const unfinished = this.unfinishedPlayers()
+        if (unfinished.length !== 1) return false
+        const mode = SCORING_MODES[this.settings.scoring]
+        const last = this.results.reduce((worst, r) => mode.compare(r.result, worst.result) > 0 ? r : worst).result
+
+        const progress = this.progress.get(unfinished[0].profile.id)
+        const best = progress ? bestReachable(this.settings.scoring, progress) : null
+        return best !== null && mode.compare(best, last) > 0
+    }
+
+    // Every player of a round plays the same level, so anyone's note count will do
+    private roundNoteCount() {
+        const reported = [...this.progress.values(), ...this.results.map(r => r.result)]
+        return reported.find(r => r.totalCount > 0)?.totalCount ?? 0
+    }
+
+    // The player cut off here is not a DNF: their progress is recorded as a failed result,
+    // which still places them last and keeps them in the rating and the set standings
+    private finishEarly() {
+        const noteCount = this.roundNoteCount()
+        this.unfinishedPlayers().forEach(u => this.results.push({
+            userId: u.profile.id,
+            userName: u.profile.name,
+            result: failResult(this.progress.get(u.profile.id), noteCount)
+        }))
+        this.announce('Every placement is decided, finishing the round')
+        this.finishMatch()
+    }
+
+    // Players of the running round without a result yet
+    private unfinishedPlayers() {
+        return this.players.filter(u => u.status === 'playing' && !this.results.some(r => r.userId === u.profile.id))
+    }
+
+    private startRound() {
+        this.cancelAutoStart()
+        this.status = 'playing'
+        this.broadcast({ type: 'updateStatus', status: this.status })
+
+        console.log('[Room] Match started! Broadcasting startRound...');
+        this.results = []
+        this.resultFlags.clear()
+        this.newBests.clear()
+        this.progress.clear()
+        this.progressAt.clear()
+        this.dnf = []
+        this.roundStartedAt = Date.now()
+        this.startSetRound()
+        this.stopAutoPick()
+        if (this.teamMode && this.settings.teamBalance === 'rating') {
+            this.balanceTeams()
+            this.announceTeams()
+        } else if (this.teamMode) {
+            this.fillTeams()
+        }
+
+        // Set all skipped users to waiting
+        this.users.forEach(u => {
+            if (u.status === 'skipped') u.status = 'waiting';
+        });
+
+        this.broadcast({
+            type: 'startRound',
+            state: 'round-' + Date.now(),
+            seed: Math.random()
+        })
+
+        this.scheduleRoundTimeout()
+    }
+
+    // The round is force finished after the chart length plus the grace margin. The default
+    // length applies until the level's chart is resolved (usually cached from setLevel).
+    private scheduleRoundTimeout() {
+        const startedAt = this.roundStartedAt!
+        const schedule = (duration: number) => {
+            if (this.forceFinishTimer) clearTimeout(this.forceFinishTimer);
+            this.forceFinishTimer = setTimeout(() => this.timeoutRound(),
+                Math.max(0, startedAt + duration + this.roundTimeoutGrace - Date.now()))
+        }
+        schedule(this.defaultRoundDuration)
+
+        if (!this.level) return
+        resolveLevelDuration(this.level).then(seconds => {
+            if (seconds === null || this.status !== 'playing' || this.roundStartedAt !== startedAt) return
+            console.log(`[Room] Round timeout set from chart length: ${Math.round(seconds)}s`);
+            schedule(seconds * 1000)
+        })
+    }
+
+    private timeoutRound() {
+        if (this.status !== 'playing') return
+        const unfinished = this.unfinishedPlayers()
+        console.log(`[Room] Match timeout. Force finishing, ${unfinished.length} players did not finish.`);
+        this.dnf = unfinished.map(u => u.profile.id)
+        if (unfinished.length > 0) {
+            this.announce(`Time is up: ${unfinished.map(u => u.profile.name).join(', ')} did not finish`)
+        }
+        this.finishMatch();
+    }
+
+    // Allowed players of a locked room that are not connected. Such a room only starts with all of them.
+    private missingPlayers() {
+        if (!this.locked || !this.allowedUsers) return []
+        return Array.from(this.allowedUsers)
+            .filter(id => !this.players.some(u => u.profile.id === id && u.disconnectedAt === null))
+    }
+
+    // Re-evaluated whenever readiness, membership, the level or the options change
+    private checkAutoStart() {
+        if (this.settings.autoStart === 'off' || this.status === 'playing' || !this.level || this.missingPlayers().length > 0) {
+            this.cancelAutoStart()
+            return
+        }
+
+        // Skipped and disconnected players are not waited for
+        const active = this.players.filter(u => u.status !== 'skipped' && u.disconnectedAt === null)
+        const ready = active.filter(u => u.status === 'ready').length
+
+        if (active.length > 0 && ready === active.length) {
+            if (this.autoStartWaitTimer) clearTimeout(this.autoStartWaitTimer)
+            this.autoStartWaitTimer = null
+            this.startAutoStartCountdown()
+        } else if (this.settings.autoStart === 'minReady' && ready >= this.settings.autoStartMinReady) {
+            if (this.autoStartTimer || this.autoStartWaitTimer) return
+            this.announce(`${ready} players are ready, the round starts in ${this.settings.autoStartTimeout} seconds`)
+            this.autoStartWaitTimer = setTimeout(() => {
+                this.autoStartWaitTimer = null
+                this.startAutoStartCountdown()
+            }, this.settings.autoStartTimeout * 1000)
+        } else {
+            this.cancelAutoStart()
+        }
+    }
+
+    private startAutoStartCountdown() {
+        if (this.autoStartTimer) return
+        this.announce(`Round starts in ${AUTO_START_COUNTDOWN / 1000} seconds`)
+        this.autoStartTimer = setTimeout(() => {
+            this.autoStartTimer = null
+            if (this.status !== 'playing' && this.level) this.startRound()
+        }, AUTO_START_COUNTDOWN)
+    }
+
+    private cancelAutoStart() {
+        if (this.autoStartWaitTimer) clearTimeout(this.autoStartWaitTimer)
+        this.autoStartWaitTimer = null
+        if (!this.autoStartTimer) return
+        clearTimeout(this.autoStartTimer)
+        this.autoStartTimer = null
+        if (this.status !== 'playing') this.announce('Auto-start cancelled')
+    }
+
+    // Re-checks when the current master's inactivity would run out, so role changes need no extra bookkeeping
+    private scheduleMasterAfkCheck(delay: number) {
+        if (this.masterAfkTimer) clearTimeout(this.masterAfkTimer)
+        this.masterAfkTimer = null
+        if (this.masterAfkTimeout <= 0 || this.users.length === 0) return
+        this.masterAfkTimer = setTimeout(() => {
+            this.masterAfkTimer = null
+            this.checkMasterAfk()
+        }, delay)
+    }
+
+    private checkMasterAfk() {
+        const idleFor = Date.now() - (this.master ? this.lastActive.get(this.master) ?? 0 : 0)
+        // Nobody is expected to send commands mid-round, and tournament roles never move
+        if (!this.master || this.locked || this.status === 'playing' || idleFor < this.masterAfkTimeout) {
+            this.scheduleMasterAfkCheck(Math.max(this.masterAfkTimeout - idleFor, 1000))
+            return
+        }
+
+        const previous = this.users.find(u => u.profile.id === this.master)
+        const successor = this.players
+            .filter(u => u.profile.id !== this.master && u.disconnectedAt === null)
+            .sort((a, b) => (this.lastActive.get(b.profile.id) ?? 0) - (this.lastActive.get(a.profile.id) ?? 0))[0]
+        if (successor && (this.lastActive.get(successor.profile.id) ?? 0) > (this.lastActive.get(this.master) ?? 0)) {
+            const afkMaster = this.master
+            this.master = successor.profile.id
+            this.broadcast({ type: 'updateMaster', master: this.master })
+            this.sendInviteKey()
+            if (this.lead === afkMaster) {
+                this.lead = successor.profile.id
+                this.broadcast({ type: 'updateLead', lead: this.lead })
+            }
+            this.announce(`${previous?.profile.name || 'The master'} is inactive, ${successor.profile.name} is the new master`)
+        }
+        this.scheduleMasterAfkCheck(this.masterAfkTimeout)
+    }
+
+    // Aborted rounds are recorded without rating, set points or the match listener
+    private finishMatch(aborted = false) {
         if (this.forceFinishTimer) clearTimeout(this.forceFinishTimer);
         this.forceFinishTimer = null;
+        if (this.liveScoreboardTimer) clearTimeout(this.liveScoreboardTimer)
+        this.liveScoreboardTimer = null
 
-        // Record to leaderboard
-        const resolvedTitle = typeof this.title === 'string' ? this.title : (this.title.en || this.title.ru || 'Room');
-        resultsStore.addMatch(resolvedTitle, this.level, this.results);
+        // Record to leaderboard, flagged results go to the review queue
+        const teamOf = (userId: ServiceUserId) => {
+            const team = this.teamMode ? this.teams.get(userId) : undefined
+            return team !== undefined ? { team } : {}
+        }
+        const noteCount = this.roundNoteCount()
+        const recorded: RecordedResult[] = [
+            ...this.results.map(r => {
+                const flags = this.resultFlags.get(r.userId)
+                return { ...r, ...(flags ? { flags } : {}), ...teamOf(r.userId) }
+            }),
+            // Unfinished players keep their progress so far as a failed result
+            ...this.dnf.map(userId => ({
+                userId,
+                userName: this.users.find(u => u.profile.id === userId)?.profile.name ?? 'Unknown',
+                result: failResult(this.progress.get(userId), noteCount),
+                dnf: true,
+                ...teamOf(userId)
+            }))
+        ]
+        const match = resultsStore.addMatch(this.resolvedTitle, this.level, recorded, {
+            setId: this.set?.id,
+            teams: this.teamMode ? this.teamResults() : undefined,
+            aborted
+        });
+        recorded.forEach(r => {
+            if (!r.flags) return
+            reviewQueue.add({
+                source: 'antiCheat',
+                userId: r.userId,
+                userName: r.userName,
+                roomName: this.resolvedTitle,
+                matchId: match?.id,
+                reasons: r.flags
+            })
+        })
+        this.resultFlags.clear()
+        this.roundStartedAt = null
+        if (this.results.length > 0 && !aborted) this.finishSetRound(match?.id, recorded)
 
         this.updateScoreboard();
         this.status = 'selecting';
@@ -243,22 +1486,180 @@ export class MultiplayerRoom {
 
         // Broadcast a full update to everyone
         this.broadcastUpdate();
+        // Suggestions made during the round are voted on now
+        this.startAutoPick()
+
+        if (this.onMatchFinished && !aborted) this.onMatchFinished(match, recorded)
+    }
+
+    private startSetRound() {
+        if (this.set && !this.set.finished) return
+        this.set = this.settings.setRounds > 1 ? {
+            id: crypto.randomUUID(),
+            startedAt: Date.now(),
+            rounds: this.settings.setRounds,
+            pointsScheme: this.settings.setPoints,
+            round: 0,
+            matchIds: [],
+            points: new Map(),
+            finished: false
+        } : null
+    }
+
+    // DNF players place behind every finisher, ordered by their progress
+    private finishSetRound(matchId: string | undefined, recorded: RecordedResult[]) {
+        const set = this.set
+        if (!set || set.finished) return
+
+        const scheme = POINTS_SCHEMES[set.pointsScheme]
+        const finished = recorded.filter(r => !r.dnf)
+        const unfinished = recorded.filter(r => r.dnf)
+        const ranked = [...finished, ...unfinished]
+        const places = [
+            ...placements(this.settings.scoring, finished.map(r => r.result)),
+            ...placements(this.settings.scoring, unfinished.map(r => r.result)).map(place => place + finished.length)
+        ]
+        ranked.forEach((r, i) => {
+            const entry = set.points.get(r.userId)
+            set.points.set(r.userId, {
+                userName: r.userName || entry?.userName || 'Unknown',
+                points: (entry?.points ?? 0) + scheme.points(places[i], ranked.length)
+            })
+        })
+        set.round++
+        if (matchId) set.matchIds.push(matchId)
+        if (set.round < set.rounds) return
+
+        set.finished = true
+        const standings = this.setStandings(set)
+        const winners = standings.filter(s => s.place === 0)
+        resultsStore.addSet({
+            id: set.id,
+            startedAt: set.startedAt,
+            timestamp: Date.now(),
+            roomName: this.resolvedTitle,
+            rounds: set.rounds,
+            pointsScheme: set.pointsScheme,
+            matchIds: set.matchIds,
+            standings,
+            winners: winners.map(w => w.userId)
+        })
+
+        const points = winners[0]?.points ?? 0
+        const announcement = winners.length > 1
+            ? `Set over: ${winners.map(w => w.userName).join(', ')} tie with ${points} pts`
+            : `Set over: ${winners[0]?.userName} wins with ${points} pts`
+        this.announce(announcement)
+    }
+
+    // System chat message from the server
+    public announce(text: string) {
+        console.log(`[Room] ${this.name}: ${text}`);
+        this.logChat(null, 'text', text)
+        this.broadcast({ type: 'addChatMessage', message: { userId: null, type: 'text', value: text } })
+    }
+
+    // Private system message, kept out of the chat history
+    private sendInviteKey() {
+        if (!this.isRestricted) return
+        const master = this.users.find(u => u.profile.id === this.master)
+        this.send(master?.connection ?? null, {
+            type: 'addChatMessage',
+            message: { userId: null, type: 'text', value: `Invite key: ${this.key} (works in place of the room password)` }
+        })
+    }
+
+    private setStandings(set: RoomSet): SetStanding[] {
+        const sorted = Array.from(set.points, ([userId, entry]) => ({ userId, ...entry }))
+            .sort((a, b) => b.points - a.points)
+        return sorted.map(entry => ({
+            ...entry,
+            place: sorted.findIndex(other => other.points === entry.points)
+        }))
     }
 
     private updateScoreboard() {
-        this.scoreboardSections = [{
-            title: '#SCOREBOARD',
-            icon: 'crown',
-            scores: this.results
-                .sort((a, b) => b.result.arcadeScore - a.result.arcadeScore)
-                .map(r => ({
-                    userId: r.userId,
-                    value: r.result.arcadeScore.toString()
+        const mode = SCORING_MODES[this.settings.scoring]
+        const round = this.set ? ` · Round ${this.set.round}/${this.set.rounds}` : ''
+        // Mid-round, players without a result are ranked by their live progress
+        const live = (userIds: ServiceUserId[]) => this.status !== 'playing' ? [] : userIds
+            .filter(id => this.progress.has(id) && !this.results.some(r => r.userId === id))
+            .map(id => ({ userId: id, result: { ...this.progress.get(id)!, grade: 'pass' as const }, live: true }))
+        const scores = (results: (ResultEntry & { live?: boolean })[]) => [...results]
+            .sort((a, b) => mode.compare(a.result, b.result))
+            .map(r => ({
+                userId: r.userId,
+                value: formatScore(this.settings.scoring, r.result)
+                    + (r.live ? ' · Live' : '')
+                    + (this.newBests.has(r.userId) ? ' ★ New PB' : '')
+            }))
+
+        if (this.teamMode) {
+            // One section per team, leading team first; members without a result are listed last
+            this.scoreboardSections = this.teamResults()
+                .sort((a, b) => a.place - b.place)
+                .map(team => {
+                    const results = [
+                        ...this.results.filter(r => this.teams.get(r.userId) === team.team),
+                        ...live(team.members as ServiceUserId[])
+                    ]
+                    const missing = team.members.filter(id => !results.some(r => r.userId === id))
+                    return {
+                        title: `${team.name} Team · ${team.score === null ? '—' : mode.formatValue(team.score)}${round}`,
+                        icon: team.place === 0 && team.score !== null ? 'crown' : undefined,
+                        scores: [
+                            ...scores(results),
+                            ...missing.map(id => ({
+                                userId: id as ServiceUserId,
+                                value: this.dnf.includes(id as ServiceUserId) ? 'DNF' : 'No result'
+                            }))
+                        ]
+                    }
+                })
+        } else {
+            this.scoreboardSections = [{
+                title: mode.title + round,
+                icon: 'crown',
+                scores: [
+                    ...scores([...this.results, ...live(this.players.map(u => u.profile.id))]),
+                    ...this.dnf.map(userId => ({ userId, value: 'DNF' }))
+                ]
+            }];
+        }
+        if (this.set) {
+            this.scoreboardSections.push({
+                title: this.set.finished ? 'Set Result' : 'Set Standings',
+                icon: 'trophy',
+                scores: this.setStandings(this.set).map(s => ({
+                    userId: s.userId as ServiceUserId,
+                    value: `${s.points} pts` + (this.set!.finished && s.place === 0 ? ' ★ Winner' : '')
                 }))
-        }];
+            })
+        }
+        const spectators = this.users.filter(u => u.spectator)
+        if (spectators.length > 0) {
+            this.scoreboardSections.push({
+                title: 'Spectators',
+                icon: 'show',
+                scores: spectators.map(u => ({ userId: u.profile.id, value: 'Spectating' }))
+            })
+        }
         console.log('[Room] Scoreboard updated:', JSON.stringify(this.scoreboardSections));
     }
 
+    private scheduleLiveScoreboard() {
+        if (this.liveScoreboardTimer) return
+        this.liveScoreboardTimer = setTimeout(() => {
+            this.liveScoreboardTimer = null
+            if (this.status === 'playing') this.refreshScoreboard()
+        }, LIVE_SCOREBOARD_INTERVAL)
+    }
+
+    private refreshScoreboard() {
+        this.updateScoreboard()
+        this.broadcast({ type: 'updateScoreboardSections', scoreboardSections: this.scoreboardSections })
+    }
+
     private updateUserStatus(userId: ServiceUserId, status: UserStatus) {
         const user = this.users.find(u => u.profile.id === userId)
         if (user) user.status = status
@@ -267,9 +1668,41 @@ export class MultiplayerRoom {
             type: 'updateUserStatus',
             userStatus: { userId, status }
         })
+        this.checkAutoStart()
+    }
+
+    private get resolvedTitle(): string {
+        return typeof this.title === 'string' ? this.title : (this.title.en || this.title.ru || 'Room')
+    }
+
+    private get players() {
+        return this.users.filter(u => !u.spectator)
+    }
+
+    private isSpectator(userId: ServiceUserId) {
+        return this.users.some(u => u.profile.id === userId && u.spectator)
+    }
+
+    // Players submit one result (or progress towards it) per round
+    private expectsResult(userId: ServiceUserId) {
+        return this.status === 'playing' && !this.isSpectator(userId) && !this.results.some(r => r.userId === userId)
+    }
+
+    private isMember(userId: ServiceUserId) {
+        return this.users.some(u => u.profile.id === userId)
+    }
+
+    private sendError(userId: ServiceUserId, command: string | null, message: string) {
+        console.warn(`[Room] Refused ${command} from ${userId}: ${message}`);
+        const user = this.users.find(u => u.profile.id === userId)
+        if (user) this.send(user.connection, { type: 'error', command, message })
+    }
+
+    private send(connection: RoomConnection | null, event: ServerEvent) {
+        if (connection?.isOpen) connection.send(JSON.stringify(event))
     }
 
-    private sendUpdate(ws: WebSocket, userId: ServiceUserId, newUserEntry?: any) {
+    private sendUpdate(connection: RoomConnection | null, userId: ServiceUserId, newUserEntry?: RoomUserEntry) {
         const allUsers = newUserEntry ? [...this.users, newUserEntry] : this.users
 
         const users = allUsers.map(u => ({
@@ -282,34 +1715,20 @@ export class MultiplayerRoom {
             status: u.status
         }))
 
-        // Resolve title to string (Sonolus protocol requirement for UpdateEvent)
-        const resolvedTitle = typeof this.title === 'string' ? this.title : (this.title.en || this.title.ru || 'Room')
 
-        const updateEvent = {
-            type: 'update' as const,
+        const updateEvent: UpdateEvent = {
+            type: 'update',
             allowOtherServers: this.allowOtherServers,
-            reportUserOptions: [
-                {
-                    type: 'inappropriate_name',
-                    title: '#REPORT_REASON_INAPPROPRIATE_NAME',
-                    requireConfirmation: true,
-                    options: []
-                },
-                {
-                    type: 'cheating',
-                    title: '#REPORT_REASON_CHEATING',
-                    requireConfirmation: true,
-                    options: []
-                }
-            ],
-            title: resolvedTitle,
+            reportUserOptions: REPORT_USER_OPTIONS,
+            // Resolved to string (Sonolus protocol requirement for UpdateEvent)
+            title: this.resolvedTitle,
             status: this.status,
             master: this.master,
             lead: this.lead,
             options: this.options,
-            optionValues: this.optionValues || 'type=basic',
+            optionValues: this.optionValues,
             level: this.level,
-            levelOptions: this.levelOptions.map((o, i) => ({ index: i, value: o.value })),
+            levelOptions: this.levelOptions,
             autoExit: this.autoExit,
             isSuggestionsLocked: this.isSuggestionsLocked,
             suggestions: this.suggestions,
@@ -325,26 +1744,86 @@ export class MultiplayerRoom {
             users: users,
             userStatuses: userStatuses
         }
-        ws.send(JSON.stringify(updateEvent))
+        this.send(connection, updateEvent)
     }
 
     private broadcastUpdate() {
         console.log(`[Room] Broadcasting full UpdateEvent to ${this.users.length} users`);
         this.users.forEach(u => {
-            if (u.ws.readyState === WebSocket.OPEN) {
-                this.sendUpdate(u.ws, u.profile.id);
+            if (u.connection?.isOpen) {
+                this.sendUpdate(u.connection, u.profile.id);
             }
         });
     }
 
-    private broadcast(event: any, excludeUserId?: ServiceUserId) {
+    private broadcast(event: ServerEvent, excludeUserId?: ServiceUserId) {
         const message = JSON.stringify(event)
         console.log(`[Room] Broadcasting: ${event.type} to ${this.users.length} users`);
         this.users.forEach(u => {
             if (u.profile.id === excludeUserId) return
-            if (u.ws.readyState === WebSocket.OPEN) {
-                u.ws.send(message)
+            if (u.connection?.isOpen) {
+                u.connection.send(message)
             }
         })
     }
 }
+
+
+function hashPassword(password: string) {
+    return crypto.createHash('sha256').update(password).digest('hex')
+}
+
+function safeEqual(a: string, b: string) {
+    const bufA = Buffer.from(a)
+    const bufB = Buffer.from(b)
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB)
+}
+
+// Identifies a suggestion across commands (a level can only be suggested once)
+function suggestionKey(suggestion: Suggestion) {
+    return levelKey(suggestion.level)
+}
+
+function meetsAutoExit(autoExit: AutoExit, grade: GameplayResult['grade']) {
+    switch (autoExit) {
+        case 'off':
+            return true
+        case 'pass':
+            return grade !== 'fail'
+        case 'fullCombo':
+            return grade === 'fullCombo' || grade === 'allPerfect'
+        case 'allPerfect':
+            return grade === 'allPerfect'
+    }
+}
+
+// Whether live progress already rules out the autoExit goal (a full combo ends at the first miss)
+function autoExitFailed(autoExit: AutoExit, progress: GameplayProgress) {
+    switch (autoExit) {
+        case 'off':
+            return false
+        case 'pass':
+            return progress.life === 0
+        case 'fullCombo':
+            return progress.miss > 0
+        case 'allPerfect':
+            return progress.great + progress.good + progress.miss > 0
+    }
+}
+
+// Recorded for forfeits and auto exits: the progress so far (if any) as a failed result.
+// Notes left unplayed count as misses so the result never ranks above a finished one.
+function failResult(progress: GameplayProgress | undefined, totalCount: number): GameplayResult {
+    const judged = progress ? progress.perfect + progress.great + progress.good + progress.miss : 0
+    return {
+        grade: 'fail',
+        arcadeScore: progress?.arcadeScore ?? 0,
+        accuracyScore: progress?.accuracyScore ?? 0,
+        combo: progress?.combo ?? 0,
+        perfect: progress?.perfect ?? 0,
+        great: progress?.great ?? 0,
+        good: progress?.good ?? 0,
+        miss: (progress?.miss ?? 0) + Math.max(0, totalCount - judged),
+        totalCount
+    }
+}
@@ -0,0 +1,216 @@
+import { ServiceUserId, Sil } from '@sonolus/core'
+import { AutoExit, ChatMessage, ClientCommand, GameplayProgress, GameplayResult, LevelOptionEntry, RoomStatus, Suggestion, UserStatus } from './types'
+import { MAX_TEAMS } from './teams'
+
+// Runtime validation of incoming WebSocket commands. Anything that does not match
+// ClientCommand exactly is rejected before it reaches MultiplayerRoom.
+
+export type ParseResult =
+    | { ok: true; command: ClientCommand }
+    | { ok: false; command: string | null; error: string }
+
+const ROOM_STATUSES: RoomStatus[] = ['selecting', 'preparing', 'playing']
+const USER_STATUSES: UserStatus[] = ['waiting', 'ready', 'skipped', 'playing']
+const AUTO_EXITS: AutoExit[] = ['off', 'pass', 'fullCombo', 'allPerfect']
+const GRADES: GameplayResult['grade'][] = ['allPerfect', 'fullCombo', 'pass', 'fail']
+const QUICK_MESSAGES = ['hello', 'glhf', 'gg', 'ns', 'ty']
+
+const MAX_ID_LENGTH = 256
+const MAX_CHAT_LENGTH = 1000
+const MAX_OPTION_VALUES_LENGTH = 2000
+const MAX_LEVEL_OPTIONS = 256
+// Upper bounds that no real chart or score gets close to
+const MAX_NOTE_COUNT = 100000
+const MAX_SCORE = 10000000
+
+class ValidationError extends Error { }
+
+function fail(message: string): never {
+    throw new ValidationError(message)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], field: string): T {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) fail(`Invalid ${field}`)
+    return value as T
+}
+
+function string(value: unknown, field: string, maxLength: number): string {
+    if (typeof value !== 'string' || value.length === 0 || value.length > maxLength) fail(`Invalid ${field}`)
+    return value
+}
+
+function count(value: unknown, field: string, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) fail(`Invalid ${field}`)
+    return value
+}
+
+function userId(value: unknown, field: string): ServiceUserId {
+    return string(value, field, MAX_ID_LENGTH) as ServiceUserId
+}
+
+function sil(value: unknown, field: string): Sil {
+    if (!isObject(value)) fail(`Invalid ${field}`)
+    return {
+        address: string(value.address, `${field}.address`, 2048),
+        name: string(value.name, `${field}.name`, MAX_ID_LENGTH)
+    }
+}
+
+function suggestion(value: unknown): Suggestion {
+    if (!isObject(value)) fail('Invalid suggestion')
+    return {
+        userId: userId(value.userId, 'suggestion.userId'),
+        level: sil(value.level, 'suggestion.level')
+    }
+}
+
+function levelOption(value: unknown): LevelOptionEntry {
+    if (!isObject(value)) fail('Invalid levelOption')
+    if (typeof value.value !== 'number' || !Number.isFinite(value.value)) fail('Invalid levelOption.value')
+    return {
+        index: count(value.index, 'levelOption.index', MAX_LEVEL_OPTIONS - 1),
+        value: value.value
+    }
+}
+
+function chatMessage(value: unknown): ChatMessage {
+    if (!isObject(value)) fail('Invalid message')
+    const type = oneOf(value.type, ['text', 'quick'], 'message.type')
+    const text = type === 'quick'
+        ? oneOf(value.value, QUICK_MESSAGES, 'message.value')
+        : string(value.value, 'message.value', MAX_CHAT_LENGTH)
+    // userId is always filled in by the server
+    return { userId: null, type, value: text }
+}
+
+function gameplayResult(value: unknown): GameplayResult {
+    if (!isObject(value)) fail('Invalid result')
+    const totalCount = count(value.totalCount, 'result.totalCount', MAX_NOTE_COUNT)
+    return {
+        grade: oneOf(value.grade, GRADES, 'result.grade'),
+        arcadeScore: count(value.arcadeScore, 'result.arcadeScore', MAX_SCORE),
+        accuracyScore: count(value.accuracyScore, 'result.accuracyScore', MAX_SCORE),
+        combo: count(value.combo, 'result.combo', totalCount),
+        perfect: count(value.perfect, 'result.perfect', totalCount),
+        great: count(value.great, 'result.great', totalCount),
+        good: count(value.good, 'result.good', totalCount),
+        miss: count(value.miss, 'result.miss', totalCount),
+        totalCount
+    }
+}
+
+function gameplayProgress(value: unknown): GameplayProgress {
+    if (!isObject(value)) fail('Invalid progress')
+    const totalCount = count(value.totalCount, 'progress.totalCount', MAX_NOTE_COUNT)
+    const progress: GameplayProgress = {
+        arcadeScore: count(value.arcadeScore, 'progress.arcadeScore', MAX_SCORE),
+        accuracyScore: count(value.accuracyScore, 'progress.accuracyScore', MAX_SCORE),
+        combo: count(value.combo, 'progress.combo', totalCount),
+        perfect: count(value.perfect, 'progress.perfect', totalCount),
+        great: count(value.great, 'progress.great', totalCount),
+        good: count(value.good, 'progress.good', totalCount),
+        miss: count(value.miss, 'progress.miss', totalCount),
+        totalCount
+    }
+    if (progress.perfect + progress.great + progress.good + progress.miss > totalCount) fail('Invalid progress')
+    if (value.life !== undefined) progress.life = count(value.life, 'progress.life', MAX_SCORE)
+    return progress
+}
+
+function command(value: Record<string, any>): ClientCommand {
+    switch (value.type) {
+        case 'addChatMessage':
+            return { type: 'addChatMessage', message: chatMessage(value.message) }
+        case 'updateUserStatus':
+            return { type: 'updateUserStatus', status: oneOf(value.status, USER_STATUSES, 'status') }
+        case 'updateStatus':
+            return { type: 'updateStatus', status: oneOf(value.status, ROOM_STATUSES, 'status') }
+        case 'updateLevel':
+            return { type: 'updateLevel', level: sil(value.level, 'level') }
+        case 'updateLevelOption':
+            return { type: 'updateLevelOption', levelOption: levelOption(value.levelOption) }
+        case 'addSuggestion':
+            return { type: 'addSuggestion', level: sil(value.level, 'level') }
+        case 'clearSuggestions':
+            return { type: 'clearSuggestions' }
+        case 'updateIsSuggestionsLocked':
+            if (typeof value.isSuggestionsLocked !== 'boolean') fail('Invalid isSuggestionsLocked')
+            return { type: 'updateIsSuggestionsLocked', isSuggestionsLocked: value.isSuggestionsLocked }
+        case 'removeSuggestion':
+        case 'voteSuggestion':
+            return { type: value.type, suggestion: suggestion(value.suggestion) }
+        case 'swapSuggestions':
+            return { type: 'swapSuggestions', suggestionA: suggestion(value.suggestionA), suggestionB: suggestion(value.suggestionB) }
+        case 'updateAutoExit':
+            return { type: 'updateAutoExit', autoExit: oneOf(value.autoExit, AUTO_EXITS, 'autoExit') }
+        case 'updateMaster':
+            return { type: 'updateMaster', master: userId(value.master, 'master') }
+        case 'updateLead':
+            return { type: 'updateLead', lead: userId(value.lead, 'lead') }
+        case 'resetScoreboard':
+            return { type: 'resetScoreboard' }
+        case 'startGameplay':
+            return { type: 'startGameplay' }
+        case 'finishGameplay':
+            return { type: 'finishGameplay', result: gameplayResult(value.result) }
+        case 'updateProgress':
+            return { type: 'updateProgress', progress: gameplayProgress(value.progress) }
+        case 'forfeit':
+            return { type: 'forfeit' }
+        case 'updateOptionValues':
+            return {
+                type: 'updateOptionValues',
+                optionValues: string(value.optionValues, 'optionValues', MAX_OPTION_VALUES_LENGTH)
+            }
+        case 'reportUser':
+            return {
+                type: 'reportUser',
+                userId: userId(value.userId, 'userId'),
+                optionValues: string(value.optionValues, 'optionValues', MAX_OPTION_VALUES_LENGTH)
+            }
+        case 'removeUser':
+        case 'banUser':
+        case 'muteUser':
+        case 'unmuteUser':
+            return { type: value.type, userId: userId(value.userId, 'userId') }
+        case 'assignTeam':
+            return { type: 'assignTeam', userId: userId(value.userId, 'userId'), team: count(value.team, 'team', MAX_TEAMS - 1) }
+        case 'balanceTeams':
+            return { type: 'balanceTeams' }
+        default:
+            return fail('Unknown command')
+    }
+}
+
+// Level references in admin requests get the same checks as the ones in commands
+export function parseSil(value: unknown): Sil | null {
+    try {
+        return sil(value, 'level')
+    } catch (e) {
+        if (e instanceof ValidationError) return null
+        throw e
+    }
+}
+
+export function parseCommand(raw: string): ParseResult {
+    let value: unknown
+    try {
+        value = JSON.parse(raw)
+    } catch (e) {
+        return { ok: false, command: null, error: 'Malformed JSON' }
+    }
+    if (!isObject(value) || typeof value.type !== 'string') {
+        return { ok: false, command: null, error: 'Missing command type' }
+    }
+
+    try {
+        return { ok: true, command: command(value) }
+    } catch (e) {
+        if (e instanceof ValidationError) return { ok: false, command: value.type, error: e.message }
+        throw e
+    }
+}
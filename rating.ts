@@ -0,0 +1,50 @@
+import { ServiceUserId } from '@sonolus/core'
+import { GameplayResult } from './types'
+
+// Multiplayer Elo: every match is scored as head-to-head games between all
+// pairs of participants, placed by arcade score.
+
+export const INITIAL_RATING = 1500
+const K_FACTOR = 32
+
+export type RatingChange = {
+    userId: ServiceUserId
+    before: number
+    after: number
+}
+
+export type RatedResult = {
+    userId: ServiceUserId
+    result: GameplayResult
+}
+
+function expectedScore(rating: number, opponent: number) {
+    return 1 / (1 + Math.pow(10, (opponent - rating) / 400))
+}
+
+function actualScore(a: GameplayResult, b: GameplayResult) {
+    if (a.arcadeScore === b.arcadeScore) return 0.5
+    return a.arcadeScore > b.arcadeScore ? 1 : 0
+}
+
+// Returns one change per participant, or nothing when there is nobody to compare against
+export function computeRatingChanges(results: RatedResult[], ratings: Map<string, number>): RatingChange[] {
+    if (results.length < 2) return []
+
+    const current = results.map(r => ratings.get(r.userId) ?? INITIAL_RATING)
+    // K is split across opponents so a big lobby does not swing ratings harder than a duel
+    const k = K_FACTOR / (results.length - 1)
+
+    return results.map((r, i) => {
+        let delta = 0
+        results.forEach((opponent, j) => {
+            if (i === j) return
+            delta += actualScore(r.result, opponent.result) - expectedScore(current[i], current[j])
+        })
+        return {
+            userId: r.userId,
+            before: current[i],
+            after: Math.round((current[i] + k * delta) * 10) / 10
+        }
+    })
+}
@@ -0,0 +1,21 @@
+import type IORedis from 'ioredis'
+import { RedisLikeClient } from './roomBus'
+
+// REDIS_URL connects the server nodes through Redis (needs the optional ioredis dependency).
+// The stores shared between nodes use one connection, the bus subscriber opens its own.
+
+let shared: RedisLikeClient | null = null
+
+export function connectRedis(url: string): RedisLikeClient {
+    // Loaded lazily so the client is only needed when several nodes run
+    const Redis: typeof IORedis = require('ioredis')
+    return new Redis(url)
+}
+
+// The shared connection, null when this node runs alone
+export function sharedRedis() {
+    const url = process.env.REDIS_URL
+    if (!url) return null
+    shared ??= connectRedis(url)
+    return shared
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ServiceUserId } from '@sonolus/core';
+
+const DATA_FILE = path.join(__dirname, 'reports.json');
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+export type ReportAction = 'mute' | 'kick';
+
+export type ChatLogEntry = {
+    userId: ServiceUserId | null;
+    userName?: string;
+    type: 'text' | 'quick';
+    value: string;
+    // Text as sent when the chat filter masked it; only reports show it
+    original?: string;
+    timestamp: number;
+}
+
+export type Report = {
+    id: string;
+    createdAt: number;
+    reporterId: ServiceUserId;
+    reporterName?: string;
+    targetId: ServiceUserId;
+    targetName?: string;
+    roomName: string;
+    reason: string;
+    chatContext: ChatLogEntry[];
+    autoAction?: ReportAction;
+    status: ReportStatus;
+    note?: string;
+    resolvedAt?: number;
+}
+
+// Automatic actions once enough different players reported the same user within the window
+export type ReportPolicy = {
+    windowMs: number;
+    actions: { threshold: number; action: ReportAction }[];
+}
+
+export const DEFAULT_REPORT_POLICY: ReportPolicy = {
+    windowMs: 60 * 60 * 1000,
+    actions: [
+        { threshold: 3, action: 'mute' },
+        { threshold: 5, action: 'kick' }
+    ]
+};
+
+export class ReportStore {
+    private reports: Report[] = [];
+
+    constructor(public policy: ReportPolicy = DEFAULT_REPORT_POLICY) {
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(DATA_FILE)) {
+            try {
+                const data = fs.readFileSync(DATA_FILE, 'utf-8');
+                this.reports = JSON.parse(data);
+            } catch (e) {
+                console.error("Failed to load reports:", e);
+                this.reports = [];
+            }
+        }
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(DATA_FILE, JSON.stringify(this.reports, null, 2));
+        } catch (e) {
+            console.error("Failed to save reports:", e);
+        }
+    }
+
+    // Stores the report and returns the automatic action it triggers, if any
+    public add(report: Omit<Report, 'id' | 'createdAt' | 'status' | 'autoAction'>) {
+        const now = Date.now();
+        const duplicate = this.reports.find(r =>
+            r.reporterId === report.reporterId &&
+            r.targetId === report.targetId &&
+            r.reason === report.reason &&
+            now - r.createdAt < this.policy.windowMs
+        );
+
+        const record: Report = {
+            ...report,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            status: 'open'
+        };
+
+        // Repeating the same report does not count towards automatic actions
+        const action = duplicate ? null : this.actionFor(report.targetId, now, report.reporterId);
+        if (action) record.autoAction = action;
+
+        this.reports.unshift(record); // Newest first
+        this.save();
+        return { report: record, action };
+    }
+
+    private actionFor(targetId: ServiceUserId, now: number, newReporter: ServiceUserId): ReportAction | null {
+        const reporters = new Set<string>([newReporter]);
+        this.reports.forEach(r => {
+            if (r.targetId === targetId && r.status !== 'dismissed' && now - r.createdAt < this.policy.windowMs) {
+                reporters.add(r.reporterId);
+            }
+        });
+
+        // Only fire when the count reaches a threshold exactly, so each action happens once
+        const match = this.policy.actions.find(a => a.threshold === reporters.size);
+        return match ? match.action : null;
+    }
+
+    public list(status?: ReportStatus): Report[] {
+        return status ? this.reports.filter(r => r.status === status) : this.reports;
+    }
+
+    public resolve(id: string, status: Exclude<ReportStatus, 'open'>, note?: string) {
+        const report = this.reports.find(r => r.id === id);
+        if (!report) return null;
+        report.status = status;
+        report.resolvedAt = Date.now();
+        if (note) report.note = note;
+        this.save();
+        return report;
+    }
+}
+
+export const reportStore = new ReportStore();
@@ -1,72 +1,385 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { ResultEntry } from './types';
 import { Sil } from '@sonolus/core';
+import { JsonlMatchStorage, MatchQuery, MatchStorage, MAX_PAGE_SIZE } from './matchStorage';
+import { SqliteMatchStorage } from './sqliteMatchStorage';
+import { computeRatingChanges, RatingChange } from './rating';
 
-const DATA_FILE = path.join(__dirname, 'matches_history.json');
+// Legacy single-file history, imported once into the configured storage
+const LEGACY_DATA_FILE = path.join(__dirname, 'matches_history.json');
+const JSONL_DATA_FILE = path.join(__dirname, 'matches_history.jsonl');
+const SQLITE_DATA_FILE = path.join(__dirname, 'matches_history.sqlite');
+
+// Results flagged by the anti-cheat checks carry their flags and are left out of rankings
+export type RecordedResult = ResultEntry & {
+    flags?: string[];
+    // 0-based team in team mode
+    team?: number;
+    // Still playing when the round timed out or was finished early; the result is the progress so far and is not ranked
+    dnf?: boolean;
+}
+
+export type TeamResult = {
+    team: number;
+    name: string;
+    members: string[];
+    // Aggregated under the room's scoring mode, null if no member finished
+    score: number | null;
+    scoring: string;
+    aggregation: string;
+    // 0 is the winning team, tied teams share a place
+    place: number;
+}
+
+export type TeamStanding = {
+    // Sorted user ids, the same roster under any team name counts as one team
+    members: string[];
+    matchCount: number;
+    wins: number;
+    averagePlace: number;
+}
 
 export type MatchRecord = {
     id: string;
     timestamp: number;
     roomName: string;
     level: Sil;
-    results: ResultEntry[];
+    results: RecordedResult[];
+    // Rating update caused by this match (ranked results only)
+    ratingChanges?: RatingChange[];
+    // Best-of-N set this match was a round of
+    setId?: string;
+    // Team mode only
+    teams?: TeamResult[];
+    // Cut short by a server restart; kept in history but not rated
+    aborted?: boolean;
+}
+
+export type SetStanding = {
+    userId: string;
+    userName: string;
+    points: number;
+    place: number;
+}
+
+// A finished best-of-N set; its rounds are the matches with the same setId
+export type SetRecord = {
+    id: string;
+    startedAt: number;
+    timestamp: number;
+    roomName: string;
+    rounds: number;
+    pointsScheme: string;
+    matchIds: string[];
+    // Best first, tied players share a place
+    standings: SetStanding[];
+    winners: string[];
+}
+
+export type LevelBest = {
+    userId: string;
+    userName: string;
+    result: ResultEntry['result'];
+    matchId: string;
+    timestamp: number;
+}
+
+export type PlayerRating = {
+    userId: string;
+    name: string;
+    rating: number;
+    matchCount: number;
+}
+
+export function isRanked(result: RecordedResult) {
+    return !result.dnf && (!result.flags || result.flags.length === 0);
+}
+
+// Levels are identified by server and name together
+export function levelKey(level: Sil) {
+    return `${level.address}|${level.name}`;
+}
+
+// Imports matches_history.json into an empty storage once. The file is tracked in git, so it is
+// left in place and a marker file next to it records the import.
+// Legacy IDs were Date.now() strings, so duplicates get a fresh ID instead of being dropped.
+export function migrateLegacyHistory(storage: MatchStorage, file = LEGACY_DATA_FILE, marker = file + '.imported') {
+    if (!fs.existsSync(file) || fs.existsSync(marker) || storage.count() > 0) return 0;
+
+    let legacy: MatchRecord[];
+    try {
+        legacy = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e) {
+        console.error("Failed to read legacy match history:", e);
+        return 0;
+    }
+
+    const seen = new Set<string>();
+    // Oldest first, so the storage keeps newest-first order
+    [...legacy].reverse().forEach(record => {
+        const id = seen.has(record.id) ? crypto.randomUUID() : record.id;
+        seen.add(id);
+        storage.add({ ...record, id });
+    });
+    fs.writeFileSync(marker, new Date().toISOString());
+    console.log(`[Results] Imported ${legacy.length} matches from ${path.basename(file)}`);
+    return legacy.length;
 }
 
 export class ResultsStore {
-    private history: MatchRecord[] = [];
+    private ratings = new Map<string, PlayerRating>();
 
-    constructor() {
-        this.load();
+    constructor(private storage: MatchStorage) {
+        this.rebuildRatings();
     }
 
-    private load() {
-        if (fs.existsSync(DATA_FILE)) {
-            try {
-                const data = fs.readFileSync(DATA_FILE, 'utf-8');
-                this.history = JSON.parse(data);
-            } catch (e) {
-                console.error("Failed to load match history:", e);
-                this.history = [];
+    // Replays every match oldest first. Matches whose stored rating changes are missing
+    // or outdated (legacy imports, cleared flags) are updated in the storage.
+    private rebuildRatings() {
+        this.ratings.clear();
+        [...this.storage.all()].reverse().forEach(match => {
+            const changes = this.ratingChanges(match);
+            this.applyRatings(match, changes);
+            if (JSON.stringify(changes) !== JSON.stringify(match.ratingChanges ?? [])) {
+                this.storage.update({ ...match, ratingChanges: changes });
             }
-        }
+        });
     }
 
-    private save() {
-        try {
-            fs.writeFileSync(DATA_FILE, JSON.stringify(this.history, null, 2));
-        } catch (e) {
-            console.error("Failed to save match history:", e);
-        }
+    // Rating changes the match would cause, without applying them
+    private ratingChanges(match: MatchRecord) {
+        const ranked = match.aborted ? [] : match.results.filter(isRanked);
+        const current = new Map(Array.from(this.ratings.values(), p => [p.userId, p.rating]));
+        return computeRatingChanges(ranked, current);
+    }
+
+    private applyRatings(match: MatchRecord, changes: RatingChange[]) {
+        changes.forEach(change => {
+            const result = match.results.find(r => r.userId === change.userId);
+            const player = this.ratings.get(change.userId);
+            this.ratings.set(change.userId, {
+                userId: change.userId,
+                name: result?.userName || player?.name || 'Unknown',
+                rating: change.after,
+                matchCount: (player?.matchCount ?? 0) + 1
+            });
+        });
     }
 
-    public addMatch(roomName: string, level: Sil | null, results: ResultEntry[]) {
-        if (!level || results.length === 0) return;
+    public addMatch(
+        roomName: string,
+        level: Sil | null,
+        results: RecordedResult[],
+        extra: { setId?: string; teams?: TeamResult[]; aborted?: boolean } = {}
+    ): MatchRecord | null {
+        if (!level || results.length === 0) return null;
 
         const record: MatchRecord = {
-            id: Date.now().toString(),
+            id: crypto.randomUUID(),
             timestamp: Date.now(),
             roomName,
             level,
             results
         };
+        if (extra.setId) record.setId = extra.setId;
+        if (extra.teams) record.teams = extra.teams;
+        if (extra.aborted) record.aborted = true;
+        record.ratingChanges = this.ratingChanges(record);
+
+        // Ratings only move once the match is stored, so memory never runs ahead of the storage
+        try {
+            this.storage.add(record);
+        } catch (e) {
+            console.error("Failed to save match:", e);
+            return null;
+        }
+        this.applyRatings(record, record.ratingChanges);
+        return record;
+    }
+
+    // Called when a review clears a flagged result so it counts for rankings again
+    public clearFlags(matchId: string, userId: string) {
+        const match = this.storage.get(matchId);
+        const result = match?.results.find(r => r.userId === userId);
+        if (!match || !result || !result.flags) return false;
+        delete result.flags;
+        this.storage.update(match);
+        this.rebuildRatings();
+        return true;
+    }
+
+    public getMatch(id: string) {
+        return this.storage.get(id);
+    }
 
-        this.history.unshift(record); // Newest first
-        // Limit history size if needed, e.g. keep last 1000 matches
-        if (this.history.length > 1000) {
-            this.history = this.history.slice(0, 1000);
+    public queryMatches(query: MatchQuery) {
+        return this.storage.query(query);
+    }
+
+    // Every match matching the filters, newest first (pages through the storage)
+    public findMatches(filter: Omit<MatchQuery, 'offset' | 'limit'>): MatchRecord[] {
+        const matches: MatchRecord[] = [];
+        let total = Infinity;
+        while (matches.length < total) {
+            const page = this.storage.query({ ...filter, offset: matches.length, limit: MAX_PAGE_SIZE });
+            if (page.matches.length === 0) break;
+            matches.push(...page.matches);
+            total = page.total;
         }
-        this.save();
+        return matches;
+    }
+
+    // Best ranked result of every player on a level, best first. Aborted matches never count as bests.
+    public getLevelLeaderboard(level: Sil): LevelBest[] {
+        const best = new Map<string, LevelBest>();
+        this.findMatches({ levelName: level.name, levelAddress: level.address }).forEach(match => {
+            if (match.aborted) return;
+            match.results.filter(isRanked).forEach(r => {
+                const current = best.get(r.userId);
+                if (!current || r.result.arcadeScore > current.result.arcadeScore) {
+                    best.set(r.userId, {
+                        userId: r.userId,
+                        userName: r.userName || 'Unknown',
+                        result: r.result,
+                        matchId: match.id,
+                        timestamp: match.timestamp
+                    });
+                }
+            });
+        });
+        return Array.from(best.values()).sort((a, b) => b.result.arcadeScore - a.result.arcadeScore);
+    }
+
+    // Every ranked result that beat the player's previous best on the level, oldest first
+    public getPersonalBestHistory(userId: string, level: Sil): LevelBest[] {
+        const history: LevelBest[] = [];
+        [...this.findMatches({ userId, levelName: level.name, levelAddress: level.address })].reverse().forEach(match => {
+            if (match.aborted) return;
+            const r = match.results.find(r => r.userId === userId);
+            if (!r || !isRanked(r)) return;
+            const previous = history[history.length - 1];
+            if (previous && r.result.arcadeScore <= previous.result.arcadeScore) return;
+            history.push({
+                userId: r.userId,
+                userName: r.userName || 'Unknown',
+                result: r.result,
+                matchId: match.id,
+                timestamp: match.timestamp
+            });
+        });
+        return history;
+    }
+
+    public getPersonalBest(userId: string, level: Sil): LevelBest | null {
+        const history = this.getPersonalBestHistory(userId, level);
+        return history.length > 0 ? history[history.length - 1] : null;
+    }
+
+    // Current best on every level the player has a ranked result on, newest first
+    public getPersonalBests(userId: string): (LevelBest & { level: Sil })[] {
+        const bests = new Map<string, LevelBest & { level: Sil }>();
+        this.findMatches({ userId }).forEach(match => {
+            if (match.aborted) return;
+            const r = match.results.find(r => r.userId === userId);
+            if (!r || !isRanked(r)) return;
+            const current = bests.get(levelKey(match.level));
+            if (!current || r.result.arcadeScore > current.result.arcadeScore) {
+                bests.set(levelKey(match.level), {
+                    userId: r.userId,
+                    userName: r.userName || 'Unknown',
+                    result: r.result,
+                    matchId: match.id,
+                    timestamp: match.timestamp,
+                    level: match.level
+                });
+            }
+        });
+        return Array.from(bests.values()).sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    // Rated players, best first
+    public getRatings(): PlayerRating[] {
+        return Array.from(this.ratings.values()).sort((a, b) => b.rating - a.rating);
+    }
+
+    public getRating(userId: string): PlayerRating | null {
+        return this.ratings.get(userId) ?? null;
+    }
+
+    // Rating after each rated match of the player, oldest first
+    public getRatingHistory(userId: string) {
+        return this.findMatches({ userId })
+            .map(match => ({ match, change: match.ratingChanges?.find(c => c.userId === userId) }))
+            .filter(({ change }) => change !== undefined)
+            .reverse()
+            .map(({ match, change }) => ({
+                matchId: match.id,
+                timestamp: match.timestamp,
+                before: change!.before,
+                after: change!.after
+            }));
+    }
+
+    public addSet(record: SetRecord) {
+        try {
+            this.storage.addSet(record);
+        } catch (e) {
+            console.error("Failed to save set:", e);
+            return false;
+        }
+        return true;
+    }
+
+    public getSet(id: string) {
+        return this.storage.getSet(id);
+    }
+
+    public getSets(roomName?: string): SetRecord[] {
+        const sets = this.storage.allSets();
+        return roomName === undefined ? sets : sets.filter(s => s.roomName === roomName);
+    }
+
+    // Team mode matches grouped by roster (team names are reused across rooms, so they are no identity)
+    public getTeamStandings(roomName?: string): TeamStanding[] {
+        const standings = new Map<string, TeamStanding & { totalPlace: number }>();
+        this.findMatches({ roomName }).forEach(match => {
+            if (match.aborted) return;
+            match.teams?.forEach(team => {
+                const members = [...team.members].sort();
+                const key = members.join('|');
+                const standing = standings.get(key) ?? { members, matchCount: 0, wins: 0, averagePlace: 0, totalPlace: 0 };
+                standing.matchCount++;
+                standing.totalPlace += team.place + 1;
+                if (team.place === 0) standing.wins++;
+                standings.set(key, standing);
+            });
+        });
+        return Array.from(standings.values())
+            .map(({ totalPlace, ...standing }) => ({ ...standing, averagePlace: totalPlace / standing.matchCount }))
+            .sort((a, b) => b.wins - a.wins || a.averagePlace - b.averagePlace);
     }
 
     public getHistory(): MatchRecord[] {
-        return this.history;
+        return this.storage.all();
     }
 
     public clearHistory() {
-        this.history = [];
-        this.save();
+        this.storage.clear();
+        this.ratings.clear();
     }
 }
 
-export const resultsStore = new ResultsStore();
+// RESULTS_STORAGE=sqlite uses better-sqlite3, anything else the append-only JSONL log
+function createStorage(): MatchStorage {
+    if (process.env.RESULTS_STORAGE === 'sqlite') {
+        return new SqliteMatchStorage(SQLITE_DATA_FILE);
+    }
+    return new JsonlMatchStorage(JSONL_DATA_FILE);
+}
+
+const storage = createStorage();
+migrateLegacyHistory(storage);
+
+export const resultsStore = new ResultsStore(storage);
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ServiceUserId } from '@sonolus/core';
+
+const DATA_FILE = path.join(__dirname, 'review_queue.json');
+
+export type ReviewStatus = 'open' | 'cleared' | 'confirmed';
+
+// Results flagged by the anti-cheat checks and players reported for cheating
+export type ReviewEntry = {
+    id: string;
+    createdAt: number;
+    source: 'antiCheat' | 'report';
+    userId: ServiceUserId;
+    userName?: string;
+    roomName: string;
+    matchId?: string;
+    reasons: string[];
+    reportedBy?: ServiceUserId;
+    status: ReviewStatus;
+    resolvedAt?: number;
+}
+
+export class ReviewQueue {
+    private entries: ReviewEntry[] = [];
+
+    constructor() {
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(DATA_FILE)) {
+            try {
+                const data = fs.readFileSync(DATA_FILE, 'utf-8');
+                this.entries = JSON.parse(data);
+            } catch (e) {
+                console.error("Failed to load review queue:", e);
+                this.entries = [];
+            }
+        }
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(DATA_FILE, JSON.stringify(this.entries, null, 2));
+        } catch (e) {
+            console.error("Failed to save review queue:", e);
+        }
+    }
+
+    public add(entry: Omit<ReviewEntry, 'id' | 'createdAt' | 'status'>) {
+        const record: ReviewEntry = {
+            ...entry,
+            id: crypto.randomUUID(),
+            createdAt: Date.now(),
+            status: 'open'
+        };
+        this.entries.unshift(record); // Newest first
+        this.save();
+        return record;
+    }
+
+    public list(status?: ReviewStatus): ReviewEntry[] {
+        return status ? this.entries.filter(e => e.status === status) : this.entries;
+    }
+
+    public resolve(id: string, status: Exclude<ReviewStatus, 'open'>) {
+        const entry = this.entries.find(e => e.id === id);
+        if (!entry) return null;
+        entry.status = status;
+        entry.resolvedAt = Date.now();
+        this.save();
+        return entry;
+    }
+}
+
+export const reviewQueue = new ReviewQueue();
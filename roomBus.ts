@@ -0,0 +1,140 @@
+// Pub/sub between server nodes. Channels carry JSON strings; see cluster for what is sent.
+
+export interface RoomBus {
+    publish(channel: string, message: string): void
+    // Returns the unsubscribe function
+    subscribe(channel: string, handler: (message: string) => void): () => void
+}
+
+// Single process: nodes sharing one instance talk to each other (tests, or a single node)
+export class MemoryBus implements RoomBus {
+    private handlers = new Map<string, Set<(message: string) => void>>()
+
+    public publish(channel: string, message: string) {
+        const handlers = this.handlers.get(channel)
+        if (!handlers) return
+        // Delivered asynchronously like a real broker, so publishers never re-enter themselves
+        handlers.forEach(handler => queueMicrotask(() => handler(message)))
+    }
+
+    public subscribe(channel: string, handler: (message: string) => void) {
+        const handlers = this.handlers.get(channel) ?? new Set()
+        handlers.add(handler)
+        this.handlers.set(channel, handlers)
+        return () => {
+            handlers.delete(handler)
+            if (handlers.size === 0) this.handlers.delete(channel)
+        }
+    }
+}
+
+// The subset of a Redis client (ioredis naming) the bus and the shared stores use.
+// Results may be promises, as with a real client.
+export type RedisLikeClient = {
+    publish(channel: string, message: string): unknown
+    subscribe(channel: string): unknown
+    unsubscribe(channel: string): unknown
+    on(event: 'message', listener: (channel: string, message: string) => void): unknown
+    hsetnx(key: string, field: string, value: string): Promise<number>
+    hset(key: string, field: string, value: string): Promise<unknown>
+    hget(key: string, field: string): Promise<string | null>
+    // Number of removed fields
+    hdel(key: string, field: string): Promise<number>
+    hgetall(key: string): Promise<Record<string, string>>
+    // SET key value PX ttl NX: 'OK', or null if the key exists
+    set(key: string, value: string, px: 'PX', ttl: number, nx: 'NX'): Promise<'OK' | null>
+}
+
+// Redis pub/sub. A subscribed Redis connection can not publish, so it takes two clients.
+export class RedisBus implements RoomBus {
+    private handlers = new Map<string, Set<(message: string) => void>>()
+
+    constructor(private publisher: RedisLikeClient, private subscriber: RedisLikeClient) {
+        subscriber.on('message', (channel, message) => {
+            this.handlers.get(channel)?.forEach(handler => handler(message))
+        })
+    }
+
+    public publish(channel: string, message: string) {
+        Promise.resolve(this.publisher.publish(channel, message)).catch(e => {
+            console.error(`[Bus] Failed to publish to ${channel}:`, e);
+        })
+    }
+
+    public subscribe(channel: string, handler: (message: string) => void) {
+        let handlers = this.handlers.get(channel)
+        if (!handlers) {
+            handlers = new Set()
+            this.handlers.set(channel, handlers)
+            Promise.resolve(this.subscriber.subscribe(channel)).catch(e => {
+                console.error(`[Bus] Failed to subscribe to ${channel}:`, e);
+            })
+        }
+        handlers.add(handler)
+        return () => {
+            handlers!.delete(handler)
+            if (handlers!.size > 0 || this.handlers.get(channel) !== handlers) return
+            this.handlers.delete(channel)
+            Promise.resolve(this.subscriber.unsubscribe(channel)).catch(e => {
+                console.error(`[Bus] Failed to unsubscribe from ${channel}:`, e);
+            })
+        }
+    }
+}
+
+// In-process stand-in for a Redis server: its clients behave like RedisLikeClient connections,
+// so RedisBus and the Redis backed stores can be exercised without a Redis server
+export class LocalRedis {
+    private hashes = new Map<string, Map<string, string>>()
+    // key -> value and the time it expires
+    private strings = new Map<string, { value: string, expiresAt: number }>()
+    private subscribers = new Set<{ channels: Set<string>, listeners: ((channel: string, message: string) => void)[] }>()
+
+    public client(): RedisLikeClient {
+        const connection = { channels: new Set<string>(), listeners: [] as ((channel: string, message: string) => void)[] }
+        this.subscribers.add(connection)
+        const hash = (key: string) => {
+            const existing = this.hashes.get(key) ?? new Map<string, string>()
+            this.hashes.set(key, existing)
+            return existing
+        }
+
+        return {
+            publish: async (channel, message) => {
+                let received = 0
+                this.subscribers.forEach(s => {
+                    if (!s.channels.has(channel)) return
+                    received++
+                    queueMicrotask(() => s.listeners.forEach(listener => listener(channel, message)))
+                })
+                return received
+            },
+            subscribe: async channel => {
+                connection.channels.add(channel)
+            },
+            unsubscribe: async channel => {
+                connection.channels.delete(channel)
+            },
+            on: (_event, listener) => {
+                connection.listeners.push(listener)
+            },
+            hsetnx: async (key, field, value) => {
+                if (hash(key).has(field)) return 0
+                hash(key).set(field, value)
+                return 1
+            },
+            hset: async (key, field, value) => {
+                hash(key).set(field, value)
+            },
+            hget: async (key, field) => hash(key).get(field) ?? null,
+            hdel: async (key, field) => hash(key).delete(field) ? 1 : 0,
+            hgetall: async key => Object.fromEntries(hash(key)),
+            set: async (key, value, _px, ttl) => {
+                const existing = this.strings.get(key)
+                if (existing && existing.expiresAt > Date.now()) return null
+                this.strings.set(key, { value, expiresAt: Date.now() + ttl })
+                return 'OK'
+            }
+        }
+    }
+}
@@ -0,0 +1,294 @@
+import { ServerForm } from '@sonolus/core'
+import { ScoringMode, SCORING_MODES, PointsScheme, POINTS_SCHEMES } from './scoring'
+import { TeamAggregation, TeamBalance, TEAM_AGGREGATIONS, MAX_TEAMS } from './teams'
+
+// The room `options` form the master edits in the client, and its parsed values
+
+export type RoomSettings = {
+    scoring: ScoringMode
+    // 1 plays single rounds, more plays best-of-N sets
+    setRounds: number
+    setPoints: PointsScheme
+    // 1 is free-for-all
+    teams: number
+    teamScoring: TeamAggregation
+    // N for the 'best' aggregation
+    teamBestCount: number
+    teamBalance: TeamBalance
+    // Suggestions each user may have in the list at once
+    suggestionLimit: number
+    autoPick: AutoPick
+    // Seconds from the first suggestion until the level is picked
+    autoPickTime: number
+    autoStart: AutoStart
+    // 'minReady' only: ready players needed, and seconds to wait for the rest
+    autoStartMinReady: number
+    autoStartTimeout: number
+}
+
+export type AutoPick = 'off' | 'top' | 'random'
+export type AutoStart = 'off' | 'allReady' | 'minReady'
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+    scoring: 'arcade',
+    setRounds: 1,
+    setPoints: 'f1',
+    teams: 1,
+    teamScoring: 'sum',
+    teamBestCount: 2,
+    teamBalance: 'manual',
+    suggestionLimit: 3,
+    autoPick: 'off',
+    autoPickTime: 30,
+    autoStart: 'off',
+    autoStartMinReady: 2,
+    autoStartTimeout: 60
+}
+
+const MAX_SET_ROUNDS = 15
+const MAX_TEAM_BEST_COUNT = 8
+const TEAM_BALANCES: Record<TeamBalance, string> = {
+    manual: 'Master assigns teams',
+    rating: 'Balance by rating every round'
+}
+const MAX_SUGGESTION_LIMIT = 10
+const AUTO_PICK_TIME = { min: 10, max: 120 }
+const AUTO_PICKS: Record<AutoPick, string> = {
+    off: 'Off',
+    top: 'Most voted suggestion',
+    random: 'Random suggestion'
+}
+const MAX_AUTO_START_MIN_READY = 16
+const AUTO_START_TIMEOUT = { min: 10, max: 300 }
+const AUTO_STARTS: Record<AutoStart, string> = {
+    off: 'Off',
+    allReady: 'When everyone is ready',
+    minReady: 'When enough players are ready'
+}
+
+export const ROOM_OPTIONS: ServerForm[] = [{
+    type: 'basic',
+    title: '#SETTINGS',
+    requireConfirmation: false,
+    options: [
+        {
+            query: 'scoring',
+            name: 'Scoring',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.scoring,
+            values: (Object.keys(SCORING_MODES) as ScoringMode[]).map(mode => ({
+                name: mode,
+                title: SCORING_MODES[mode].title
+            }))
+        },
+        {
+            query: 'setRounds',
+            name: 'Rounds per set',
+            description: '1 plays single rounds without a set',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.setRounds,
+            min: 1,
+            max: MAX_SET_ROUNDS,
+            step: 1
+        },
+        {
+            query: 'setPoints',
+            name: 'Set points',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.setPoints,
+            values: (Object.keys(POINTS_SCHEMES) as PointsScheme[]).map(scheme => ({
+                name: scheme,
+                title: POINTS_SCHEMES[scheme].title
+            }))
+        },
+        {
+            query: 'teams',
+            name: 'Teams',
+            description: '1 plays free-for-all',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.teams,
+            min: 1,
+            max: MAX_TEAMS,
+            step: 1
+        },
+        {
+            query: 'teamScoring',
+            name: 'Team score',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.teamScoring,
+            values: (Object.keys(TEAM_AGGREGATIONS) as TeamAggregation[]).map(rule => ({
+                name: rule,
+                title: TEAM_AGGREGATIONS[rule]
+            }))
+        },
+        {
+            query: 'teamBestCount',
+            name: 'Best N',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.teamBestCount,
+            min: 1,
+            max: MAX_TEAM_BEST_COUNT,
+            step: 1
+        },
+        {
+            query: 'teamBalance',
+            name: 'Team assignment',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.teamBalance,
+            values: (Object.keys(TEAM_BALANCES) as TeamBalance[]).map(balance => ({
+                name: balance,
+                title: TEAM_BALANCES[balance]
+            }))
+        },
+        {
+            query: 'suggestionLimit',
+            name: 'Suggestions per player',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.suggestionLimit,
+            min: 1,
+            max: MAX_SUGGESTION_LIMIT,
+            step: 1
+        },
+        {
+            query: 'autoPick',
+            name: 'Auto-pick level',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.autoPick,
+            values: (Object.keys(AUTO_PICKS) as AutoPick[]).map(pick => ({
+                name: pick,
+                title: AUTO_PICKS[pick]
+            }))
+        },
+        {
+            query: 'autoPickTime',
+            name: 'Voting time',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.autoPickTime,
+            min: AUTO_PICK_TIME.min,
+            max: AUTO_PICK_TIME.max,
+            step: 5,
+            unit: '#SECOND_UNIT'
+        },
+        {
+            query: 'autoStart',
+            name: 'Auto-start',
+            required: false,
+            type: 'select',
+            def: DEFAULT_ROOM_SETTINGS.autoStart,
+            values: (Object.keys(AUTO_STARTS) as AutoStart[]).map(start => ({
+                name: start,
+                title: AUTO_STARTS[start]
+            }))
+        },
+        {
+            query: 'autoStartMinReady',
+            name: 'Ready players to auto-start',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.autoStartMinReady,
+            min: 1,
+            max: MAX_AUTO_START_MIN_READY,
+            step: 1
+        },
+        {
+            query: 'autoStartTimeout',
+            name: 'Wait for the rest',
+            required: false,
+            type: 'slider',
+            def: DEFAULT_ROOM_SETTINGS.autoStartTimeout,
+            min: AUTO_START_TIMEOUT.min,
+            max: AUTO_START_TIMEOUT.max,
+            step: 10,
+            unit: '#SECOND_UNIT'
+        }
+    ]
+}]
+
+// Returns null when any value is invalid, missing values fall back to the current settings
+export function parseRoomSettings(optionValues: string, current: RoomSettings): RoomSettings | null {
+    const params = new URLSearchParams(optionValues)
+    if (params.get('type') !== 'basic') return null
+
+    const scoring = params.get('scoring') ?? current.scoring
+    if (!(scoring in SCORING_MODES)) return null
+
+    const setRounds = Number(params.get('setRounds') ?? current.setRounds)
+    if (!Number.isInteger(setRounds) || setRounds < 1 || setRounds > MAX_SET_ROUNDS) return null
+
+    const setPoints = params.get('setPoints') ?? current.setPoints
+    if (!(setPoints in POINTS_SCHEMES)) return null
+
+    const teams = Number(params.get('teams') ?? current.teams)
+    if (!Number.isInteger(teams) || teams < 1 || teams > MAX_TEAMS) return null
+
+    const teamScoring = params.get('teamScoring') ?? current.teamScoring
+    if (!(teamScoring in TEAM_AGGREGATIONS)) return null
+
+    const teamBestCount = Number(params.get('teamBestCount') ?? current.teamBestCount)
+    if (!Number.isInteger(teamBestCount) || teamBestCount < 1 || teamBestCount > MAX_TEAM_BEST_COUNT) return null
+
+    const teamBalance = params.get('teamBalance') ?? current.teamBalance
+    if (!(teamBalance in TEAM_BALANCES)) return null
+
+    const suggestionLimit = Number(params.get('suggestionLimit') ?? current.suggestionLimit)
+    if (!Number.isInteger(suggestionLimit) || suggestionLimit < 1 || suggestionLimit > MAX_SUGGESTION_LIMIT) return null
+
+    const autoPick = params.get('autoPick') ?? current.autoPick
+    if (!(autoPick in AUTO_PICKS)) return null
+
+    const autoPickTime = Number(params.get('autoPickTime') ?? current.autoPickTime)
+    if (!Number.isInteger(autoPickTime) || autoPickTime < AUTO_PICK_TIME.min || autoPickTime > AUTO_PICK_TIME.max) return null
+
+    const autoStart = params.get('autoStart') ?? current.autoStart
+    if (!(autoStart in AUTO_STARTS)) return null
+
+    const autoStartMinReady = Number(params.get('autoStartMinReady') ?? current.autoStartMinReady)
+    if (!Number.isInteger(autoStartMinReady) || autoStartMinReady < 1 || autoStartMinReady > MAX_AUTO_START_MIN_READY) return null
+
+    const autoStartTimeout = Number(params.get('autoStartTimeout') ?? current.autoStartTimeout)
+    if (!Number.isInteger(autoStartTimeout) || autoStartTimeout < AUTO_START_TIMEOUT.min || autoStartTimeout > AUTO_START_TIMEOUT.max) return null
+
+    return {
+        scoring: scoring as ScoringMode,
+        setRounds,
+        setPoints: setPoints as PointsScheme,
+        teams,
+        teamScoring: teamScoring as TeamAggregation,
+        teamBestCount,
+        teamBalance: teamBalance as TeamBalance,
+        suggestionLimit,
+        autoPick: autoPick as AutoPick,
+        autoPickTime,
+        autoStart: autoStart as AutoStart,
+        autoStartMinReady,
+        autoStartTimeout
+    }
+}
+
+export function serializeRoomSettings(settings: RoomSettings) {
+    const params = new URLSearchParams({ type: 'basic' })
+    params.set('scoring', settings.scoring)
+    params.set('setRounds', settings.setRounds.toString())
+    params.set('setPoints', settings.setPoints)
+    params.set('teams', settings.teams.toString())
+    params.set('teamScoring', settings.teamScoring)
+    params.set('teamBestCount', settings.teamBestCount.toString())
+    params.set('teamBalance', settings.teamBalance)
+    params.set('suggestionLimit', settings.suggestionLimit.toString())
+    params.set('autoPick', settings.autoPick)
+    params.set('autoPickTime', settings.autoPickTime.toString())
+    params.set('autoStart', settings.autoStart)
+    params.set('autoStartMinReady', settings.autoStartMinReady.toString())
+    params.set('autoStartTimeout', settings.autoStartTimeout.toString())
+    return params.toString()
+}
@@ -0,0 +1,103 @@
+import { RedisLikeClient } from './roomBus'
+
+// Which node owns each room, plus what the room list shows for it on every node.
+// Listings expire unless their owner claims them again (ClusterNode heartbeats), so the rooms
+// of a node that stopped without releasing them leave the list and can be claimed by others.
+
+export const LISTING_TTL = 30 * 1000
+
+export type RoomListing = {
+    name: string
+    title: any
+    subtitle: any
+    master: any
+    listed: boolean
+    // Joining needs the password or the invite key
+    restricted: boolean
+    owner: string
+}
+
+// Stored with the time the claim runs out
+type ClaimedListing = RoomListing & { expiresAt: number }
+
+function isLive(claimed: ClaimedListing | null | undefined): claimed is ClaimedListing {
+    return !!claimed && claimed.expiresAt > Date.now()
+}
+
+function toListing({ expiresAt, ...listing }: ClaimedListing): RoomListing {
+    return listing
+}
+
+export interface RoomRegistry {
+    // False when another node owns the room; the owner itself claims again to update the listing and extend the claim
+    claim(listing: RoomListing): Promise<boolean>
+    // Only the owner can release a room
+    release(name: string, owner: string): Promise<void>
+    get(name: string): Promise<RoomListing | null>
+    list(): Promise<RoomListing[]>
+}
+
+export class MemoryRoomRegistry implements RoomRegistry {
+    private listings = new Map<string, ClaimedListing>()
+
+    constructor(private ttl = LISTING_TTL) { }
+
+    public async claim(listing: RoomListing) {
+        const existing = this.listings.get(listing.name)
+        if (isLive(existing) && existing.owner !== listing.owner) return false
+        this.listings.set(listing.name, { ...listing, expiresAt: Date.now() + this.ttl })
+        return true
+    }
+
+    public async release(name: string, owner: string) {
+        if (this.listings.get(name)?.owner === owner) this.listings.delete(name)
+    }
+
+    public async get(name: string) {
+        const claimed = this.listings.get(name)
+        return isLive(claimed) ? toListing(claimed) : null
+    }
+
+    public async list() {
+        return Array.from(this.listings.values()).filter(isLive).map(toListing)
+    }
+}
+
+// One Redis hash, field per room. HSETNX makes the first claim atomic across nodes. Taking over
+// an expired claim is not atomic, so the claim is read back to see which node got it.
+export class RedisRoomRegistry implements RoomRegistry {
+    constructor(private client: RedisLikeClient, private key = 'sonolus:rooms', private ttl = LISTING_TTL) { }
+
+    public async claim(listing: RoomListing) {
+        const value = JSON.stringify({ ...listing, expiresAt: Date.now() + this.ttl })
+        if (await this.client.hsetnx(this.key, listing.name, value)) return true
+
+        const existing = await this.getClaimed(listing.name)
+        if (isLive(existing) && existing.owner !== listing.owner) return false
+        await this.client.hset(this.key, listing.name, value)
+        if (existing?.owner === listing.owner) return true
+        return (await this.getClaimed(listing.name))?.owner === listing.owner
+    }
+
+    public async release(name: string, owner: string) {
+        if ((await this.getClaimed(name))?.owner === owner) await this.client.hdel(this.key, name)
+    }
+
+    public async get(name: string) {
+        const claimed = await this.getClaimed(name)
+        return isLive(claimed) ? toListing(claimed) : null
+    }
+
+    // Expired fields stay in the hash until the room is claimed again or released
+    public async list() {
+        return Object.values(await this.client.hgetall(this.key))
+            .map(value => JSON.parse(value) as ClaimedListing)
+            .filter(isLive)
+            .map(toListing)
+    }
+
+    private async getClaimed(name: string) {
+        const value = await this.client.hget(this.key, name)
+        return value ? JSON.parse(value) as ClaimedListing : null
+    }
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import { RoomSnapshot } from './multiplayer';
+
+const DATA_FILE = path.join(__dirname, 'rooms.json');
+
+export type StoredRoom = {
+    room: RoomSnapshot;
+    // Room list entry
+    master: any;
+    subtitle: any;
+    savedAt: number;
+}
+
+// Snapshots of the open rooms, rewritten as a whole on every save and read back on startup
+export class RoomStore {
+    private rooms: StoredRoom[] = [];
+
+    constructor() {
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(DATA_FILE)) {
+            try {
+                this.rooms = JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8'));
+            } catch (e) {
+                console.error("Failed to load rooms:", e);
+                this.rooms = [];
+            }
+        }
+    }
+
+    public list() {
+        return this.rooms;
+    }
+
+    public save(rooms: Omit<StoredRoom, 'savedAt'>[]) {
+        const savedAt = Date.now();
+        this.rooms = rooms.map(r => ({ ...r, savedAt }));
+        try {
+            // Written to a temporary file first so a crash mid-write keeps the previous snapshot
+            fs.writeFileSync(DATA_FILE + '.tmp', JSON.stringify(this.rooms));
+            fs.renameSync(DATA_FILE + '.tmp', DATA_FILE);
+        } catch (e) {
+            console.error("Failed to save rooms:", e);
+        }
+    }
+}
+
+export const roomStore = new RoomStore();
@@ -0,0 +1,124 @@
+import { GameplayProgress, GameplayResult } from './types'
+
+export type ScoringMode = 'arcade' | 'accuracy' | 'misses' | 'combo'
+
+type ScoringDefinition = {
+    title: string
+    description: string
+    // Negative when `a` ranks above `b`
+    compare: (a: GameplayResult, b: GameplayResult) => number
+    primary: (r: GameplayResult) => string
+    secondary: (r: GameplayResult) => string[]
+    // The ranked metric as a number, for aggregates such as team scores
+    value: (r: GameplayResult) => number
+    lowerIsBetter: boolean
+    formatValue: (value: number) => string
+}
+
+function formatAccuracy(r: GameplayResult) {
+    return formatAccuracyValue(r.accuracyScore)
+}
+
+function formatAccuracyValue(value: number) {
+    return `${(value / 10000).toFixed(2)}%`
+}
+
+// Averages of counts are shown with one decimal
+function formatCount(value: number) {
+    return Number.isInteger(value) ? value.toString() : value.toFixed(1)
+}
+
+export const SCORING_MODES: Record<ScoringMode, ScoringDefinition> = {
+    arcade: {
+        title: 'Arcade Score',
+        description: 'Ranked by arcade score.',
+        compare: (a, b) => b.arcadeScore - a.arcadeScore,
+        primary: r => r.arcadeScore.toString(),
+        secondary: r => [formatAccuracy(r), `${r.combo} combo`],
+        value: r => r.arcadeScore,
+        lowerIsBetter: false,
+        formatValue: value => Math.round(value).toString()
+    },
+    accuracy: {
+        title: 'Accuracy',
+        description: 'Ranked by accuracy score, ties broken by arcade score.',
+        compare: (a, b) => b.accuracyScore - a.accuracyScore || b.arcadeScore - a.arcadeScore,
+        primary: r => formatAccuracy(r),
+        secondary: r => [r.arcadeScore.toString(), `${r.miss} miss`],
+        value: r => r.accuracyScore,
+        lowerIsBetter: false,
+        formatValue: formatAccuracyValue
+    },
+    misses: {
+        title: 'Fewest Misses',
+        description: 'Ranked by fewest misses, then fewest goods, then accuracy.',
+        compare: (a, b) => a.miss - b.miss || a.good - b.good || b.accuracyScore - a.accuracyScore,
+        primary: r => `${r.miss} miss`,
+        secondary: r => [`${r.good} good`, formatAccuracy(r)],
+        value: r => r.miss,
+        lowerIsBetter: true,
+        formatValue: value => `${formatCount(value)} miss`
+    },
+    combo: {
+        title: 'Max Combo',
+        description: 'Ranked by max combo, ties broken by arcade score.',
+        compare: (a, b) => b.combo - a.combo || b.arcadeScore - a.arcadeScore,
+        primary: r => `${r.combo} combo`,
+        secondary: r => [r.arcadeScore.toString(), `${r.miss} miss`],
+        value: r => r.combo,
+        lowerIsBetter: false,
+        formatValue: value => `${formatCount(value)} combo`
+    }
+}
+
+export function formatScore(mode: ScoringMode, r: GameplayResult) {
+    const definition = SCORING_MODES[mode]
+    return [definition.primary(r), ...definition.secondary(r)].join(' · ')
+}
+
+// The best final result a player could still reach from live progress, for deciding a round
+// early. Unknowable parts are set to Infinity so they never rule the player out. null when the
+// mode has no safe bound (score formulas are engine specific).
+export function bestReachable(mode: ScoringMode, progress: GameplayProgress): GameplayResult | null {
+    const judged = progress.perfect + progress.great + progress.good + progress.miss
+    const remaining = progress.totalCount - judged
+    switch (mode) {
+        case 'misses':
+            // Miss and good counts only grow
+            return { ...progress, grade: 'pass', accuracyScore: Infinity }
+        case 'combo':
+            // The running combo is at most the max combo so far, and can grow by the remaining notes
+            return {
+                ...progress,
+                grade: 'pass',
+                combo: Math.min(progress.totalCount, progress.combo + remaining),
+                arcadeScore: Infinity
+            }
+        default:
+            return null
+    }
+}
+
+export type PointsScheme = 'f1' | 'linear' | 'winner'
+
+// Set points by placement (0 = first)
+export const POINTS_SCHEMES: Record<PointsScheme, { title: string; points: (place: number, players: number) => number }> = {
+    f1: {
+        title: 'F1 (25-18-15-...)',
+        points: place => [25, 18, 15, 12, 10, 8, 6, 4, 2, 1][place] ?? 0
+    },
+    linear: {
+        title: 'One per player beaten',
+        points: (place, players) => players - place - 1
+    },
+    winner: {
+        title: 'Round wins',
+        points: place => place === 0 ? 1 : 0
+    }
+}
+
+// Placement of each result under the mode; tied results share the better place
+export function placements(mode: ScoringMode, results: GameplayResult[]) {
+    const compare = SCORING_MODES[mode].compare
+    return results.map(r => results.filter(other => compare(other, r) < 0).length)
+}
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ServiceUserId } from '@sonolus/core';
+import { RedisLikeClient } from './roomBus';
+import { sharedRedis } from './redis';
+
+const DATA_FILE = path.join(__dirname, 'sessions.json');
+
+// Issued by /sonolus/authenticate, sent back by clients in the Sonolus-Session header
+export type AuthSession = {
+    type: 'auth';
+    profile: any;
+    // roomId -> password or invite key accepted through the room's access form, used by later joins
+    roomAccess?: Record<string, string>;
+    expiresAt: number;
+}
+
+// Issued by the room join route, redeemed by the WebSocket upgrade for that room only
+export type JoinTicket = {
+    type: 'join';
+    roomId: string;
+    profileId: ServiceUserId;
+    authSession: string;
+    authentication: string;
+    signature: string;
+    // Joins as a spectator, who watches rounds without playing
+    spectator?: boolean;
+    expiresAt: number;
+}
+
+export type SessionRecord = AuthSession | JoinTicket;
+
+export interface SessionStorage {
+    get(id: string): Promise<SessionRecord | undefined>;
+    set(id: string, record: SessionRecord): Promise<void>;
+    delete(id: string): Promise<void>;
+    entries(): Promise<[string, SessionRecord][]>;
+}
+
+export class MemorySessionStorage implements SessionStorage {
+    protected records = new Map<string, SessionRecord>();
+
+    public async get(id: string) {
+        return this.records.get(id);
+    }
+
+    public async set(id: string, record: SessionRecord) {
+        this.records.set(id, record);
+    }
+
+    public async delete(id: string) {
+        this.records.delete(id);
+    }
+
+    public async entries() {
+        return Array.from(this.records.entries());
+    }
+}
+
+// Keeps sessions in a JSON file so clients stay authenticated across restarts
+export class FileSessionStorage extends MemorySessionStorage {
+    constructor(private file: string) {
+        super();
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(this.file)) {
+            try {
+                const data = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+                this.records = new Map(Object.entries(data));
+            } catch (e) {
+                console.error("Failed to load sessions:", e);
+                this.records = new Map();
+            }
+        }
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(this.file, JSON.stringify(Object.fromEntries(this.records)));
+        } catch (e) {
+            console.error("Failed to save sessions:", e);
+        }
+    }
+
+    public async set(id: string, record: SessionRecord) {
+        await super.set(id, record);
+        this.save();
+    }
+
+    public async delete(id: string) {
+        if (!this.records.has(id)) return;
+        await super.delete(id);
+        this.save();
+    }
+}
+
+// One Redis hash shared by every node, so a client can authenticate on one node and join on another
+export class RedisSessionStorage implements SessionStorage {
+    constructor(private client: RedisLikeClient, private key = 'sonolus:sessions') { }
+
+    public async get(id: string) {
+        const value = await this.client.hget(this.key, id);
+        return value ? JSON.parse(value) as SessionRecord : undefined;
+    }
+
+    public async set(id: string, record: SessionRecord) {
+        await this.client.hset(this.key, id, JSON.stringify(record));
+    }
+
+    public async delete(id: string) {
+        await this.client.hdel(this.key, id);
+    }
+
+    public async entries() {
+        return Object.entries(await this.client.hgetall(this.key))
+            .map(([id, value]): [string, SessionRecord] => [id, JSON.parse(value)]);
+    }
+}
+
+export class SessionStore {
+    constructor(private storage: SessionStorage) { }
+
+    public async createAuthSession(profile: any, ttl: number) {
+        const id = crypto.randomUUID();
+        const record: AuthSession = { type: 'auth', profile, expiresAt: Date.now() + ttl };
+        await this.storage.set(id, record);
+        return { id, expiresAt: record.expiresAt };
+    }
+
+    public async getAuthSession(id: string | undefined): Promise<AuthSession | null> {
+        const record = await this.getValid(id);
+        return record && record.type === 'auth' ? record : null;
+    }
+
+    public async grantRoomAccess(id: string, roomId: string, secret: string) {
+        const session = await this.getAuthSession(id);
+        if (!session) return;
+        await this.storage.set(id, { ...session, roomAccess: { ...session.roomAccess, [roomId]: secret } });
+    }
+
+    public async createJoinTicket(ticket: Omit<JoinTicket, 'type' | 'expiresAt'>, ttl: number) {
+        const id = crypto.randomUUID();
+        await this.storage.set(id, { ...ticket, type: 'join', expiresAt: Date.now() + ttl });
+        return id;
+    }
+
+    // Returns the ticket only if it is still valid and was issued for this room
+    public async getJoinTicket(id: string | undefined, roomId: string): Promise<JoinTicket | null> {
+        const record = await this.getValid(id);
+        if (!record || record.type !== 'join' || record.roomId !== roomId) return null;
+        return record;
+    }
+
+    // Drops every join ticket of the profile for the room, returns how many were dropped
+    public async revokeJoinTickets(roomId: string, profileId: ServiceUserId) {
+        const tickets = (await this.storage.entries()).filter(([, record]) =>
+            record.type === 'join' && record.roomId === roomId && record.profileId === profileId);
+        await Promise.all(tickets.map(([id]) => this.storage.delete(id)));
+        return tickets.length;
+    }
+
+    // Moves the expiration to `ttl` ms from now
+    public async touch(id: string, ttl: number) {
+        const record = await this.storage.get(id);
+        if (!record) return;
+        await this.storage.set(id, { ...record, expiresAt: Date.now() + ttl });
+    }
+
+    public async delete(id: string) {
+        await this.storage.delete(id);
+    }
+
+    // Removes all expired records, returns how many were dropped
+    public async cleanup() {
+        const now = Date.now();
+        const expired = (await this.storage.entries()).filter(([, record]) => record.expiresAt <= now);
+        await Promise.all(expired.map(([id]) => this.storage.delete(id)));
+        return expired.length;
+    }
+
+    private async getValid(id: string | undefined) {
+        if (!id) return null;
+        const record = await this.storage.get(id);
+        if (!record) return null;
+        if (record.expiresAt <= Date.now()) {
+            await this.storage.delete(id);
+            return null;
+        }
+        return record;
+    }
+}
+
+// REDIS_URL shares sessions between nodes, otherwise they are kept in sessions.json
+function createStorage(): SessionStorage {
+    const redis = sharedRedis();
+    return redis ? new RedisSessionStorage(redis) : new FileSessionStorage(DATA_FILE);
+}
+
+export const sessionStore = new SessionStore(createStorage());
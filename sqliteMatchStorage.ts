@@ -0,0 +1,131 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { MatchRecord, SetRecord } from './resultsStore';
+import { MatchPage, MatchQuery, MatchStorage, normalizePage } from './matchStorage';
+
+// SQLite backend. Each match is stored as JSON with indexed columns for filtering,
+// plus one row per participant for player lookups.
+export class SqliteMatchStorage implements MatchStorage {
+    private db: BetterSqlite3.Database;
+
+    constructor(file: string) {
+        // Loaded lazily so the native module is only needed when this backend is used
+        const Database: typeof BetterSqlite3 = require('better-sqlite3');
+        this.db = new Database(file);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS matches (
+                id TEXT PRIMARY KEY,
+                timestamp INTEGER NOT NULL,
+                room_name TEXT NOT NULL,
+                level_name TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS matches_timestamp ON matches (timestamp);
+            CREATE INDEX IF NOT EXISTS matches_room ON matches (room_name);
+            CREATE INDEX IF NOT EXISTS matches_level ON matches (level_name);
+            CREATE TABLE IF NOT EXISTS match_players (
+                match_id TEXT NOT NULL REFERENCES matches (id) ON DELETE CASCADE,
+                user_id TEXT NOT NULL,
+                PRIMARY KEY (match_id, user_id)
+            );
+            CREATE INDEX IF NOT EXISTS match_players_user ON match_players (user_id);
+            CREATE TABLE IF NOT EXISTS sets (
+                id TEXT PRIMARY KEY,
+                timestamp INTEGER NOT NULL,
+                room_name TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+        `);
+        this.db.pragma('foreign_keys = ON');
+    }
+
+    public add(record: MatchRecord) {
+        const insert = this.db.transaction((r: MatchRecord) => {
+            this.db.prepare('INSERT INTO matches (id, timestamp, room_name, level_name, data) VALUES (?, ?, ?, ?, ?)')
+                .run(r.id, r.timestamp, r.roomName, r.level.name, JSON.stringify(r));
+            const addPlayer = this.db.prepare('INSERT OR IGNORE INTO match_players (match_id, user_id) VALUES (?, ?)');
+            r.results.forEach(result => addPlayer.run(r.id, result.userId));
+        });
+        insert(record);
+    }
+
+    public update(record: MatchRecord) {
+        this.db.prepare('UPDATE matches SET data = ? WHERE id = ?').run(JSON.stringify(record), record.id);
+    }
+
+    public get(id: string) {
+        const row = this.db.prepare('SELECT data FROM matches WHERE id = ?').get(id) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) as MatchRecord : null;
+    }
+
+    public query(query: MatchQuery): MatchPage {
+        const { offset, limit } = normalizePage(query);
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.roomName !== undefined) {
+            conditions.push('room_name = ?');
+            params.push(query.roomName);
+        }
+        if (query.levelName !== undefined) {
+            conditions.push('level_name = ?');
+            params.push(query.levelName);
+        }
+        if (query.levelAddress !== undefined) {
+            conditions.push("json_extract(data, '$.level.address') = ?");
+            params.push(query.levelAddress);
+        }
+        if (query.userId !== undefined) {
+            conditions.push('id IN (SELECT match_id FROM match_players WHERE user_id = ?)');
+            params.push(query.userId);
+        }
+        if (query.from !== undefined) {
+            conditions.push('timestamp >= ?');
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            conditions.push('timestamp <= ?');
+            params.push(query.to);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM matches ${where}`).get(...params) as { total: number };
+        const rows = this.db.prepare(`SELECT data FROM matches ${where} ORDER BY timestamp DESC, rowid DESC LIMIT ? OFFSET ?`)
+            .all(...params, limit, offset) as { data: string }[];
+
+        return {
+            matches: rows.map(row => JSON.parse(row.data)),
+            total,
+            offset,
+            limit
+        };
+    }
+
+    public all() {
+        const rows = this.db.prepare('SELECT data FROM matches ORDER BY timestamp DESC, rowid DESC').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data) as MatchRecord);
+    }
+
+    public count() {
+        return (this.db.prepare('SELECT COUNT(*) AS total FROM matches').get() as { total: number }).total;
+    }
+
+    public addSet(record: SetRecord) {
+        this.db.prepare('INSERT INTO sets (id, timestamp, room_name, data) VALUES (?, ?, ?, ?)')
+            .run(record.id, record.timestamp, record.roomName, JSON.stringify(record));
+    }
+
+    public getSet(id: string) {
+        const row = this.db.prepare('SELECT data FROM sets WHERE id = ?').get(id) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) as SetRecord : null;
+    }
+
+    public allSets() {
+        const rows = this.db.prepare('SELECT data FROM sets ORDER BY timestamp DESC, rowid DESC').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data) as SetRecord);
+    }
+
+    public clear() {
+        this.db.exec('DELETE FROM match_players; DELETE FROM matches; DELETE FROM sets;');
+    }
+}
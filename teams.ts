@@ -0,0 +1,54 @@
+import { GameplayResult } from './types'
+import { ScoringMode, SCORING_MODES } from './scoring'
+
+// Team battles: players are split into colored teams and each team is scored
+// by aggregating its members' results under the room's scoring mode.
+
+export type TeamAggregation = 'sum' | 'average' | 'best'
+export type TeamBalance = 'manual' | 'rating'
+
+export const TEAM_NAMES = ['Red', 'Blue', 'Green', 'Yellow']
+export const MAX_TEAMS = TEAM_NAMES.length
+
+export const TEAM_AGGREGATIONS: Record<TeamAggregation, string> = {
+    sum: 'Sum of all members',
+    average: 'Average of members',
+    best: 'Sum of the best N'
+}
+
+// null when nobody on the team has a result
+export function teamScore(mode: ScoringMode, rule: TeamAggregation, bestCount: number, results: GameplayResult[]) {
+    if (results.length === 0) return null
+    const definition = SCORING_MODES[mode]
+    const values = results
+        .map(definition.value)
+        .sort((a, b) => definition.lowerIsBetter ? a - b : b - a)
+    const sum = (list: number[]) => list.reduce((total, value) => total + value, 0)
+
+    switch (rule) {
+        case 'sum':
+            return sum(values)
+        case 'average':
+            return sum(values) / values.length
+        case 'best':
+            return sum(values.slice(0, bestCount))
+    }
+}
+
+// Negative when `a` ranks above `b`, teams without a score go last
+export function compareTeamScores(mode: ScoringMode, a: number | null, b: number | null) {
+    if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0)
+    return SCORING_MODES[mode].lowerIsBetter ? a - b : b - a
+}
+
+// Snake draft by rating (1-2-2-1...), so every team gets a similar strength
+export function balanceTeams<T>(players: { id: T, rating: number }[], teamCount: number) {
+    const teams = new Map<T, number>()
+    const sorted = [...players].sort((a, b) => b.rating - a.rating)
+    sorted.forEach((player, index) => {
+        const lap = Math.floor(index / teamCount)
+        const position = index % teamCount
+        teams.set(player.id, lap % 2 === 0 ? position : teamCount - 1 - position)
+    })
+    return teams
+}
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { JoinRequestVerifier, RedisReplayCache } from "../auth";
+import { LocalRedis } from "../roomBus";
+
+// Locally generated key pair standing in for the Sonolus signing key
+const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+const otherKey = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+const publicJwk = publicKey.export({ format: "jwk" });
+
+const NOW = 1_700_000_000_000;
+
+function signedJoin(body: object, key: crypto.KeyObject = privateKey) {
+    const rawBody = Buffer.from(JSON.stringify(body));
+    const signature = crypto.createSign("sha256").update(rawBody).sign(key, "base64");
+    return { rawBody, signature };
+}
+
+function joinBody(overrides: object = {}) {
+    return {
+        type: "authenticateMultiplayer",
+        address: "http://localhost:3000",
+        room: "room-1",
+        time: NOW,
+        userProfile: { id: "player-1", handle: "1", name: "Player" },
+        ...overrides,
+    };
+}
+
+test("accepts a valid join request and returns its profile", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk);
+    const { rawBody, signature } = signedJoin(joinBody());
+
+    const result = await verifier.verify(rawBody, signature, "room-1", NOW);
+    assert.ok(!("status" in result));
+    assert.equal(result.profile.id, "player-1");
+});
+
+test("rejects missing, foreign and tampered signatures", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk);
+    const { rawBody, signature } = signedJoin(joinBody());
+
+    assert.deepEqual(await verifier.verify(rawBody, undefined, "room-1", NOW), { status: 401, message: "Missing signature" });
+
+    const foreign = signedJoin(joinBody(), otherKey);
+    assert.deepEqual(await verifier.verify(foreign.rawBody, foreign.signature, "room-1", NOW), { status: 401, message: "Invalid signature" });
+
+    // Same signature over a body with another profile
+    const spoofed = Buffer.from(JSON.stringify(joinBody({ userProfile: { id: "admin", handle: "0", name: "Admin" } })));
+    assert.deepEqual(await verifier.verify(spoofed, signature, "room-1", NOW), { status: 401, message: "Invalid signature" });
+});
+
+test("rejects a join request signed for another room", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk);
+    const { rawBody, signature } = signedJoin(joinBody({ room: "room-2" }));
+
+    assert.deepEqual(await verifier.verify(rawBody, signature, "room-1", NOW), { status: 403, message: "Join request was signed for another room" });
+});
+
+test("rejects signed requests of another type or without a profile", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk);
+
+    const other = signedJoin(joinBody({ type: "authenticateServer" }));
+    assert.deepEqual(await verifier.verify(other.rawBody, other.signature, "room-1", NOW), { status: 400, message: "Unexpected request type" });
+
+    const anonymous = signedJoin(joinBody({ userProfile: undefined }));
+    assert.deepEqual(await verifier.verify(anonymous.rawBody, anonymous.signature, "room-1", NOW), { status: 400, message: "Missing user profile" });
+});
+
+test("accepts clock skew up to the limit in both directions", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk, 60 * 1000);
+
+    const behind = signedJoin(joinBody({ time: NOW - 60 * 1000 }));
+    assert.ok(!("status" in await verifier.verify(behind.rawBody, behind.signature, "room-1", NOW)));
+
+    const ahead = signedJoin(joinBody({ time: NOW + 60 * 1000 }));
+    assert.ok(!("status" in await verifier.verify(ahead.rawBody, ahead.signature, "room-1", NOW)));
+});
+
+test("rejects requests signed too far from the server clock", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk, 60 * 1000);
+    const expired = { status: 401, message: "Join request expired" };
+
+    const old = signedJoin(joinBody({ time: NOW - 60 * 1000 - 1 }));
+    assert.deepEqual(await verifier.verify(old.rawBody, old.signature, "room-1", NOW), expired);
+
+    const future = signedJoin(joinBody({ time: NOW + 60 * 1000 + 1 }));
+    assert.deepEqual(await verifier.verify(future.rawBody, future.signature, "room-1", NOW), expired);
+
+    const untimed = signedJoin(joinBody({ time: "now" }));
+    assert.deepEqual(await verifier.verify(untimed.rawBody, untimed.signature, "room-1", NOW), expired);
+});
+
+test("rejects a replayed join request", async () => {
+    const verifier = new JoinRequestVerifier(publicJwk);
+    const { rawBody, signature } = signedJoin(joinBody());
+
+    assert.ok(!("status" in await verifier.verify(rawBody, signature, "room-1", NOW)));
+    assert.deepEqual(await verifier.verify(rawBody, signature, "room-1", NOW + 1000), { status: 401, message: "Join request already used" });
+
+    // A fresh request from the same player still gets in
+    const next = signedJoin(joinBody({ time: NOW + 1000 }));
+    assert.ok(!("status" in await verifier.verify(next.rawBody, next.signature, "room-1", NOW + 1000)));
+});
+
+test("a join request accepted by one node is refused by another sharing Redis", async () => {
+    const redis = new LocalRedis();
+    const a = new JoinRequestVerifier(publicJwk, 60 * 1000, new RedisReplayCache(redis.client()));
+    const b = new JoinRequestVerifier(publicJwk, 60 * 1000, new RedisReplayCache(redis.client()));
+    const { rawBody, signature } = signedJoin(joinBody());
+
+    assert.ok(!("status" in await a.verify(rawBody, signature, "room-1", NOW)));
+    assert.deepEqual(await b.verify(rawBody, signature, "room-1", NOW + 1000), { status: 401, message: "Join request already used" });
+});
@@ -0,0 +1,148 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ServiceUserId } from "@sonolus/core";
+import { ClusterNode, ClusterOptions } from "../cluster";
+import { MultiplayerRoom, RoomConnection } from "../multiplayer";
+import { MemoryBus, RedisBus, LocalRedis } from "../roomBus";
+import { MemoryRoomRegistry, RedisRoomRegistry } from "../roomRegistry";
+
+// Manual heartbeats only, and a join check timeout the tests can wait out
+const OPTIONS: ClusterOptions = { joinCheckTimeout: 50, heartbeatInterval: 60 * 60 * 1000 };
+
+// Two nodes sharing one transport: a and b
+const transports: [string, (ttl?: number) => [ClusterNode, ClusterNode]][] = [
+    ["memory", (ttl) => {
+        const bus = new MemoryBus();
+        const registry = new MemoryRoomRegistry(ttl);
+        return [new ClusterNode("a", bus, registry, OPTIONS), new ClusterNode("b", bus, registry, OPTIONS)];
+    }],
+    ["redis", (ttl) => {
+        const redis = new LocalRedis();
+        const node = (id: string) => {
+            const publisher = redis.client();
+            return new ClusterNode(id, new RedisBus(publisher, redis.client()), new RedisRoomRegistry(publisher, "sonolus:rooms", ttl), OPTIONS);
+        };
+        return [node("a"), node("b")];
+    }],
+];
+
+const player = { id: "player-1" as ServiceUserId, name: "Player" };
+const user = { authentication: "", signature: "" };
+
+// Lets bus messages and registry calls go through
+function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+function wait(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function socket() {
+    const sent: any[] = [];
+    const closed: { code: number; reason: string }[] = [];
+    const connection: RoomConnection & { isOpen: boolean } = {
+        isOpen: true,
+        send: (data) => sent.push(JSON.parse(data)),
+        close: (code, reason) => {
+            connection.isOpen = false;
+            closed.push({ code, reason });
+        },
+    };
+    return { connection, sent, closed };
+}
+
+function listing(restricted = false) {
+    return () => ({ title: "Room", subtitle: "", master: "", listed: true, restricted });
+}
+
+function hostedRoom() {
+    const room = new MultiplayerRoom("room-1", "Room");
+    // Seats are freed at once, so no timers outlive the test
+    room.reconnectGracePeriod = 0;
+    return room;
+}
+
+for (const [transport, nodes] of transports) {
+    test(`${transport}: a socket on another node joins, sends commands and receives events`, async () => {
+        const [a, b] = nodes();
+        const room = hostedRoom();
+        assert.equal(await a.host(room, listing()), true);
+        assert.equal(await b.owner(room.name), "a");
+
+        const { connection, sent } = socket();
+        const link = b.joinRemote(room.name, connection, user, player);
+        await settle();
+        assert.deepEqual(room.users.map((u) => u.profile.id), [player.id]);
+        assert.ok(sent.some((event) => event.type === "update"));
+
+        link.handleCommand({ type: "addChatMessage", message: { userId: null, type: "text", value: "hello" } });
+        await settle();
+        assert.ok(sent.some((event) => event.type === "addChatMessage" && event.message.value === "hello"));
+
+        assert.equal(link.disconnect(), true);
+        await settle();
+        assert.equal(room.users.length, 0);
+        await a.unhostAll();
+    });
+
+    test(`${transport}: a kick on the owner node closes the remote socket`, async () => {
+        const [a, b] = nodes();
+        const room = hostedRoom();
+        await a.host(room, listing());
+
+        const { connection, closed } = socket();
+        b.joinRemote(room.name, connection, user, player);
+        await settle();
+        room.kickUser(player.id, "Kicked by the room master");
+        await settle();
+        assert.deepEqual(closed, [{ code: 4001, reason: "Kicked by the room master" }]);
+        assert.equal(room.users.length, 0);
+
+        // Server bans reach rooms of other nodes through the same channel
+        const second = socket();
+        b.joinRemote(room.name, second.connection, user, player);
+        await settle();
+        await b.kickRemote(player.id, "Banned from this server");
+        await settle();
+        assert.deepEqual(second.closed, [{ code: 4001, reason: "Banned from this server" }]);
+        await a.unhostAll();
+    });
+
+    test(`${transport}: join checks run on the owner node and time out for unreachable rooms`, async () => {
+        const [a, b] = nodes();
+        const room = hostedRoom();
+        room.setPassword("secret");
+        await a.host(room, listing(true));
+
+        assert.equal(await b.checkJoin(room.name, player.id, undefined, "secret"), null);
+        assert.equal((await b.checkJoin(room.name, player.id, undefined, "wrong"))?.status, 403);
+        assert.deepEqual(await b.checkJoin("missing", player.id), { status: 503, message: "Room is not reachable" });
+        await a.unhostAll();
+    });
+
+    test(`${transport}: heartbeats refresh listings and expired claims can be taken over`, async () => {
+        const [a, b] = nodes(100);
+        const room = hostedRoom();
+        let restricted = false;
+        await a.host(room, () => ({ ...listing()(), restricted }));
+        assert.equal(await b.host(hostedRoom(), listing()), false);
+
+        restricted = true;
+        await a.heartbeat();
+        assert.equal((await b.registry.get(room.name))?.restricted, true);
+
+        // Node a stops sending heartbeats
+        await wait(150);
+        assert.equal(await b.registry.get(room.name), null);
+        assert.deepEqual(await b.registry.list(), []);
+        assert.equal(await b.host(hostedRoom(), listing()), true);
+
+        const lost: string[] = [];
+        a.setLostListener((name) => lost.push(name));
+        await a.heartbeat();
+        assert.deepEqual(lost, [room.name]);
+        assert.equal((await a.registry.get(room.name))?.owner, "b");
+        await b.unhostAll();
+    });
+}
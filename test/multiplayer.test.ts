@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ServiceUserId } from "@sonolus/core";
+import { MultiplayerRoom, RoomConnection } from "../multiplayer";
+import { MatchRecord, isRanked } from "../resultsStore";
+import { DEFAULT_ROOM_SETTINGS } from "../roomOptions";
+import { ClientCommand } from "../types";
+
+const user = { authentication: "", signature: "" };
+
+function profile(id: string) {
+    return { id: id as ServiceUserId, name: id };
+}
+
+function socket() {
+    const sent: any[] = [];
+    const connection: RoomConnection = {
+        isOpen: true,
+        send: (data) => sent.push(JSON.parse(data)),
+        close: () => { },
+    };
+    return { connection, sent };
+}
+
+// No timers outlive the test: seats are freed at once and the master never goes AFK
+function testRoom() {
+    const room = new MultiplayerRoom("room-1", "Room");
+    room.reconnectGracePeriod = 0;
+    room.masterAfkTimeout = 0;
+    return room;
+}
+
+function close(room: MultiplayerRoom) {
+    room.users.map((u) => u.profile.id).forEach((id) => room.removeUser(id));
+}
+
+test("the creator takes master and lead back when joining after someone else", () => {
+    const room = testRoom();
+    room.creatorId = "creator" as ServiceUserId;
+    room.setPassword("secret");
+
+    room.addUser(user, profile("guest"), socket().connection);
+    assert.equal(room.master, "guest");
+
+    const creator = socket();
+    room.addUser(user, profile("creator"), creator.connection);
+    assert.equal(room.master, "creator");
+    assert.equal(room.lead, "creator");
+    assert.ok(creator.sent.some((event) => event.type === "addChatMessage" && event.message.value.startsWith(`Invite key: ${room.key}`)));
+    close(room);
+});
+
+test("a creator joining as a spectator leaves the roles alone", () => {
+    const room = testRoom();
+    room.creatorId = "creator" as ServiceUserId;
+
+    room.addUser(user, profile("guest"), socket().connection);
+    room.addUser(user, profile("creator"), socket().connection, true);
+    assert.equal(room.master, "guest");
+    assert.equal(room.lead, "guest");
+    close(room);
+});
+
+const level = { address: "https://levels.example", name: "level" };
+const result = { grade: "pass" as const, arcadeScore: 500000, accuracyScore: 500000, combo: 10, perfect: 10, great: 0, good: 0, miss: 0, totalCount: 10 };
+
+function statusOf(room: MultiplayerRoom, id: string) {
+    return room.users.find((u) => u.profile.id === id)?.status;
+}
+
+test("only players of a running round start gameplay", () => {
+    const room = testRoom();
+    room.level = level;
+    room.addUser(user, profile("player"), socket().connection);
+    room.addUser(user, profile("spectator"), socket().connection, true);
+
+    room.handleCommand("player" as ServiceUserId, { type: "startGameplay" });
+    assert.equal(statusOf(room, "player"), "waiting");
+
+    room.handleCommand("player" as ServiceUserId, { type: "updateStatus", status: "playing" });
+    room.handleCommand("spectator" as ServiceUserId, { type: "startGameplay" });
+    assert.equal(statusOf(room, "spectator"), "waiting");
+
+    // The spectator does not hold the round open
+    room.handleCommand("player" as ServiceUserId, { type: "startGameplay" });
+    assert.equal(statusOf(room, "player"), "playing");
+    room.handleCommand("player" as ServiceUserId, { type: "finishGameplay", result });
+    assert.equal(room.status, "selecting");
+    close(room);
+});
+
+function progress(miss: number) {
+    return { arcadeScore: 0, accuracyScore: 0, combo: 10 - miss, perfect: 10 - miss, great: 0, good: 0, miss, totalCount: 20 };
+}
+
+function wait(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+test("a set round only finishes early once every placement is decided", async () => {
+    const room = testRoom();
+    room.level = level;
+    room.setSettings({ ...DEFAULT_ROOM_SETTINGS, scoring: "misses", setRounds: 3 });
+    ["a", "b", "c"].forEach((id) => room.addUser(user, profile(id), socket().connection));
+    let record: MatchRecord | null = null;
+    room.setMatchListener((match) => record = match);
+
+    const send = (id: string, command: ClientCommand) => room.handleCommand(id as ServiceUserId, command);
+    send("a", { type: "updateStatus", status: "playing" });
+    ["a", "b", "c"].forEach((id) => send(id, { type: "startGameplay" }));
+
+    // Nobody can catch a, but b and c still play for second place
+    send("b", { type: "updateProgress", progress: progress(5) });
+    send("c", { type: "updateProgress", progress: progress(3) });
+    send("a", { type: "finishGameplay", result: { ...result, miss: 0, totalCount: 20 } });
+    assert.equal(room.status, "playing");
+
+    // c can still beat b until their misses pass b's
+    send("b", { type: "finishGameplay", result: { ...result, grade: "fail", miss: 5, totalCount: 20 } });
+    assert.equal(room.status, "playing");
+    await wait(300);
+    send("c", { type: "updateProgress", progress: progress(6) });
+    assert.equal(room.status, "selecting");
+
+    // The cut-off player is rated and places third rather than being left out as DNF
+    const cutOff = record!.results.find((r) => r.userId === "c")!;
+    assert.equal(cutOff.result.grade, "fail");
+    assert.ok(isRanked(cutOff));
+    const standings = room.scoreboardSections.find((section) => section.title === "Set Standings")!;
+    assert.deepEqual(standings.scores.map((s) => [s.userId, s.value]), [["a", "25 pts"], ["b", "18 pts"], ["c", "15 pts"]]);
+    close(room);
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ServiceUserId } from "@sonolus/core";
+import { TournamentStore } from "../tournament";
+import { RecordedResult } from "../resultsStore";
+
+function tempStore() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tournament-"));
+    return new TournamentStore(path.join(dir, "tournaments.json"));
+}
+
+function result(userId: string, arcadeScore: number, flags?: string[]): RecordedResult {
+    return {
+        userId: userId as ServiceUserId,
+        userName: userId,
+        result: { grade: "pass", arcadeScore, accuracyScore: 0, combo: 0, perfect: 0, great: 0, good: 0, miss: 0, totalCount: 0 },
+        ...(flags ? { flags } : {}),
+    };
+}
+
+function startedMatch() {
+    const store = tempStore();
+    const tournament = store.create({
+        name: "Cup",
+        format: "singleElimination",
+        levels: [{ address: "https://levels.example", name: "level" }],
+        scoring: "arcade",
+    });
+    store.register(tournament.id, "a", "A");
+    store.register(tournament.id, "b", "B");
+    store.start(tournament.id, () => 0);
+    return { store, tournament, match: tournament.matches[0] };
+}
+
+test("a flagged result does not win a bracket match", () => {
+    const { store, tournament, match } = startedMatch();
+
+    assert.equal(store.reportResult(tournament.id, match.id, [result("a", 1000000, ["arcade_score_out_of_range"]), result("b", 500000)], "m1"), false);
+    assert.equal(match.status, "ready");
+    assert.equal(match.winner, null);
+    assert.deepEqual(match.matchIds, ["m1"]);
+    assert.equal(tournament.status, "running");
+
+    // A clean replay decides the match
+    assert.equal(store.reportResult(tournament.id, match.id, [result("a", 900000), result("b", 500000)], "m2"), true);
+    assert.equal(match.winner, "a");
+    assert.equal(tournament.winner, "a");
+});
+
+test("a flagged result can still be decided by an admin", () => {
+    const { store, tournament, match } = startedMatch();
+
+    store.reportResult(tournament.id, match.id, [result("a", 500000), result("b", 1000000, ["arcade_score_out_of_range"])]);
+    store.setWinner(tournament.id, match.id, "a");
+    assert.equal(match.status, "finished");
+    assert.equal(tournament.winner, "a");
+});
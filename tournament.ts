@@ -0,0 +1,377 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Sil } from '@sonolus/core';
+import { ScoringMode, placements } from './scoring';
+import type { RecordedResult } from './resultsStore';
+
+const DATA_FILE = path.join(__dirname, 'tournaments.json');
+
+export type TournamentFormat = 'singleElimination' | 'swiss';
+export type TournamentStatus = 'registration' | 'running' | 'finished';
+
+export type TournamentPlayer = {
+    userId: string;
+    userName: string;
+    // 1 is the top seed, assigned by rating when the tournament starts
+    seed: number;
+}
+
+export type TournamentMatch = {
+    id: string;
+    // 0-based
+    round: number;
+    index: number;
+    // null is a bye, or in elimination a winner that is not decided yet
+    players: [string | null, string | null];
+    status: 'pending' | 'ready' | 'finished';
+    // null on a finished match is a draw (Swiss only)
+    winner: string | null;
+    roomName: string | null;
+    // Recorded matches played for this pairing, replays included
+    matchIds: string[];
+}
+
+export type Tournament = {
+    id: string;
+    name: string;
+    format: TournamentFormat;
+    status: TournamentStatus;
+    // Round N plays levels[N], later rounds reuse the last one
+    levels: Sil[];
+    scoring: ScoringMode;
+    // Swiss round count, 0 picks one from the player count on start
+    swissRounds: number;
+    rounds: number;
+    players: TournamentPlayer[];
+    matches: TournamentMatch[];
+    winner: string | null;
+    createdAt: number;
+    startedAt: number | null;
+    finishedAt: number | null;
+}
+
+export type SwissStanding = {
+    userId: string;
+    userName: string;
+    points: number;
+    // Sum of the opponents' points, breaks ties
+    buchholz: number;
+    wins: number;
+    draws: number;
+    losses: number;
+}
+
+// Refused admin actions, reported back as 400
+export class TournamentError extends Error { }
+
+// Standard bracket order, so the top seeds can only meet in the late rounds
+function seedOrder(size: number) {
+    let order = [1];
+    while (order.length < size) {
+        order = order.flatMap(seed => [seed, order.length * 2 + 1 - seed]);
+    }
+    return order;
+}
+
+export class TournamentStore {
+    private tournaments: Tournament[] = [];
+
+    constructor(private file = DATA_FILE) {
+        this.load();
+    }
+
+    private load() {
+        if (fs.existsSync(this.file)) {
+            try {
+                this.tournaments = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+            } catch (e) {
+                console.error("Failed to load tournaments:", e);
+                this.tournaments = [];
+            }
+        }
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(this.file, JSON.stringify(this.tournaments, null, 2));
+        } catch (e) {
+            console.error("Failed to save tournaments:", e);
+        }
+    }
+
+    public create(options: { name: string; format: TournamentFormat; levels: Sil[]; scoring: ScoringMode; swissRounds?: number }) {
+        if (options.levels.length === 0) throw new TournamentError('At least one level is required');
+
+        const tournament: Tournament = {
+            id: crypto.randomUUID(),
+            name: options.name,
+            format: options.format,
+            status: 'registration',
+            levels: options.levels,
+            scoring: options.scoring,
+            swissRounds: options.swissRounds ?? 0,
+            rounds: 0,
+            players: [],
+            matches: [],
+            winner: null,
+            createdAt: Date.now(),
+            startedAt: null,
+            finishedAt: null
+        };
+        this.tournaments.unshift(tournament); // Newest first
+        this.save();
+        return tournament;
+    }
+
+    public get(id: string) {
+        return this.tournaments.find(t => t.id === id) ?? null;
+    }
+
+    public list(status?: TournamentStatus): Tournament[] {
+        return status ? this.tournaments.filter(t => t.status === status) : this.tournaments;
+    }
+
+    public register(id: string, userId: string, userName: string) {
+        const tournament = this.getInStatus(id, 'registration');
+        if (tournament.players.some(p => p.userId === userId)) {
+            throw new TournamentError('Player is already registered');
+        }
+        const player: TournamentPlayer = { userId, userName, seed: 0 };
+        tournament.players.push(player);
+        this.save();
+        return player;
+    }
+
+    public unregister(id: string, userId: string) {
+        const tournament = this.getInStatus(id, 'registration');
+        const index = tournament.players.findIndex(p => p.userId === userId);
+        if (index === -1) return false;
+        tournament.players.splice(index, 1);
+        this.save();
+        return true;
+    }
+
+    // Seeds players by rating and generates the first round
+    public start(id: string, ratingOf: (userId: string) => number) {
+        const tournament = this.getInStatus(id, 'registration');
+        if (tournament.players.length < 2) throw new TournamentError('At least two players are required');
+
+        tournament.players
+            .sort((a, b) => ratingOf(b.userId) - ratingOf(a.userId))
+            .forEach((player, index) => player.seed = index + 1);
+        tournament.status = 'running';
+        tournament.startedAt = Date.now();
+
+        if (tournament.format === 'singleElimination') {
+            this.createBracket(tournament);
+        } else {
+            const count = tournament.players.length;
+            tournament.rounds = Math.min(count - 1, tournament.swissRounds || Math.ceil(Math.log2(count)));
+            this.pairSwissRound(tournament, 0);
+        }
+        this.save();
+        return tournament;
+    }
+
+    public levelFor(tournament: Tournament, match: TournamentMatch) {
+        return tournament.levels[Math.min(match.round, tournament.levels.length - 1)];
+    }
+
+    public setMatchRoom(id: string, matchId: string, roomName: string) {
+        const match = this.get(id)?.matches.find(m => m.id === matchId);
+        if (!match) return;
+        match.roomName = roomName;
+        this.save();
+    }
+
+    // Decides a ready match from a finished round of its room. Returns false when the round
+    // did not decide it: a player has no result, or a tie in elimination (the pairing plays
+    // again). Results flagged by the anti-cheat checks count as missing and wait for an admin,
+    // like players who never show up, who decide the match through setWinner.
+    public reportResult(id: string, matchId: string, results: RecordedResult[], recordedMatchId?: string) {
+        const tournament = this.get(id);
+        const match = tournament?.matches.find(m => m.id === matchId);
+        if (!tournament || !match || match.status !== 'ready') return false;
+
+        if (recordedMatchId) match.matchIds.push(recordedMatchId);
+        const own = match.players.map(userId => results.find(r => r.userId === userId && !r.flags?.length));
+        if (own.some(r => !r)) {
+            this.save();
+            return false;
+        }
+
+        const places = placements(tournament.scoring, own.map(r => r!.result));
+        const tied = places.filter(place => place === 0).length > 1;
+        const winner = tied ? null : own[places.indexOf(0)]!.userId;
+        const decided = !tied || tournament.format === 'swiss';
+
+        if (decided) this.finishMatch(tournament, match, winner);
+        this.save();
+        return decided;
+    }
+
+    // Admin override for disputes and no-shows
+    public setWinner(id: string, matchId: string, userId: string) {
+        const tournament = this.getInStatus(id, 'running');
+        const match = tournament.matches.find(m => m.id === matchId);
+        if (!match) throw new TournamentError('Match not found');
+        if (match.status !== 'ready') throw new TournamentError('Match is not in progress');
+        if (!match.players.includes(userId)) throw new TournamentError('Player is not in this match');
+
+        this.finishMatch(tournament, match, userId);
+        this.save();
+        return match;
+    }
+
+    // Best first
+    public swissStandings(tournament: Tournament): SwissStanding[] {
+        const standings = new Map<string, SwissStanding>(tournament.players.map(p => [p.userId, {
+            userId: p.userId,
+            userName: p.userName,
+            points: 0,
+            buchholz: 0,
+            wins: 0,
+            draws: 0,
+            losses: 0
+        }]));
+
+        const finished = tournament.matches.filter(m => m.status === 'finished');
+        finished.forEach(match => match.players.forEach(userId => {
+            const standing = userId ? standings.get(userId) : undefined;
+            if (!standing) return;
+            if (match.winner === userId) {
+                standing.wins++;
+                standing.points += 1;
+            } else if (match.winner === null) {
+                standing.draws++;
+                standing.points += 0.5;
+            } else {
+                standing.losses++;
+            }
+        }));
+        finished.forEach(match => {
+            const [a, b] = match.players;
+            if (!a || !b) return;
+            standings.get(a)!.buchholz += standings.get(b)!.points;
+            standings.get(b)!.buchholz += standings.get(a)!.points;
+        });
+
+        const seeds = new Map(tournament.players.map(p => [p.userId, p.seed]));
+        return Array.from(standings.values()).sort((a, b) =>
+            b.points - a.points || b.buchholz - a.buchholz || seeds.get(a.userId)! - seeds.get(b.userId)!
+        );
+    }
+
+    private getInStatus(id: string, status: TournamentStatus) {
+        const tournament = this.get(id);
+        if (!tournament) throw new TournamentError('Tournament not found');
+        if (tournament.status !== status) throw new TournamentError(`Tournament is ${tournament.status}`);
+        return tournament;
+    }
+
+    private createMatch(round: number, index: number, players: [string | null, string | null]): TournamentMatch {
+        return {
+            id: crypto.randomUUID(),
+            round,
+            index,
+            players,
+            status: 'pending',
+            winner: null,
+            roomName: null,
+            matchIds: []
+        };
+    }
+
+    // Every round of the bracket is created up front, later rounds fill in as winners advance
+    private createBracket(tournament: Tournament) {
+        const bySeed = new Map(tournament.players.map(p => [p.seed, p.userId]));
+        const size = Math.pow(2, Math.ceil(Math.log2(tournament.players.length)));
+        const order = seedOrder(size);
+        tournament.rounds = Math.log2(size);
+
+        for (let round = 0; round < tournament.rounds; round++) {
+            const count = size / Math.pow(2, round + 1);
+            for (let index = 0; index < count; index++) {
+                const players: [string | null, string | null] = round === 0
+                    ? [bySeed.get(order[index * 2]) ?? null, bySeed.get(order[index * 2 + 1]) ?? null]
+                    : [null, null];
+                tournament.matches.push(this.createMatch(round, index, players));
+            }
+        }
+
+        // Top seeds get the byes, so a first round match never has two empty slots
+        tournament.matches.filter(m => m.round === 0).forEach(match => {
+            const [a, b] = match.players;
+            if (a && b) match.status = 'ready';
+            else this.finishMatch(tournament, match, a ?? b);
+        });
+    }
+
+    private pairSwissRound(tournament: Tournament, round: number) {
+        const played = new Set<string>();
+        const byes = new Set<string>();
+        tournament.matches.forEach(({ players: [a, b] }) => {
+            if (a && b) played.add(`${a}:${b}`).add(`${b}:${a}`);
+            else if (a) byes.add(a);
+        });
+
+        const unpaired = this.swissStandings(tournament).map(s => s.userId);
+        const matches: TournamentMatch[] = [];
+
+        // The lowest ranked player without a bye yet sits out for a free win
+        if (unpaired.length % 2 === 1) {
+            const candidates = unpaired.filter(userId => !byes.has(userId));
+            const bye = candidates.length > 0 ? candidates[candidates.length - 1] : unpaired[unpaired.length - 1];
+            unpaired.splice(unpaired.indexOf(bye), 1);
+            matches.push(this.createMatch(round, 0, [bye, null]));
+        }
+
+        // Greedy pairing down the standings, avoiding rematches where possible
+        while (unpaired.length > 0) {
+            const player = unpaired.shift()!;
+            const fresh = unpaired.findIndex(other => !played.has(`${player}:${other}`));
+            const [opponent] = unpaired.splice(fresh === -1 ? 0 : fresh, 1);
+            matches.push(this.createMatch(round, 0, [player, opponent]));
+        }
+
+        // The whole round is in place before the bye is decided, so it cannot complete the round early
+        matches.forEach((match, index) => {
+            match.index = index;
+            if (match.players[1]) match.status = 'ready';
+            tournament.matches.push(match);
+        });
+        matches.filter(m => !m.players[1]).forEach(match => this.finishMatch(tournament, match, match.players[0]));
+    }
+
+    private finishMatch(tournament: Tournament, match: TournamentMatch, winner: string | null) {
+        match.status = 'finished';
+        match.winner = winner;
+        console.log(`[Tournament] ${tournament.name}: round ${match.round + 1} match ${match.index + 1} won by ${winner ?? 'nobody (draw)'}`);
+
+        if (tournament.format === 'singleElimination') {
+            if (match.round === tournament.rounds - 1) return this.finishTournament(tournament, winner);
+            const next = tournament.matches.find(m => m.round === match.round + 1 && m.index === Math.floor(match.index / 2))!;
+            next.players[match.index % 2] = winner;
+            if (next.players[0] && next.players[1]) next.status = 'ready';
+            return;
+        }
+
+        const roundMatches = tournament.matches.filter(m => m.round === match.round);
+        if (roundMatches.some(m => m.status !== 'finished')) return;
+        if (match.round + 1 < tournament.rounds) {
+            this.pairSwissRound(tournament, match.round + 1);
+        } else {
+            this.finishTournament(tournament, this.swissStandings(tournament)[0].userId);
+        }
+    }
+
+    private finishTournament(tournament: Tournament, winner: string | null) {
+        tournament.status = 'finished';
+        tournament.winner = winner;
+        tournament.finishedAt = Date.now();
+        console.log(`[Tournament] ${tournament.name} finished, winner: ${winner}`);
+    }
+}
+
+export const tournamentStore = new TournamentStore();
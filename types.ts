@@ -1,7 +1,13 @@
-import { ServiceUserId, Sil } from '@sonolus/core'
+import { ServerForm, ServiceUserId, Sil } from '@sonolus/core'
 
 export type RoomStatus = 'selecting' | 'preparing' | 'playing'
 export type UserStatus = 'waiting' | 'ready' | 'skipped' | 'playing'
+export type RoomVisibility = 'public' | 'unlisted' | 'private'
+
+export type JoinRejection = {
+    status: number
+    message: string
+}
 
 export type ChatMessage = {
     userId: ServiceUserId | null
@@ -21,6 +27,12 @@ export type GameplayResult = {
     totalCount: number
 }
 
+// Live counts while a round is being played (combo is the max combo so far)
+export type GameplayProgress = Omit<GameplayResult, 'grade'> & {
+    // Engines with a life bar report it, 0 means the player can no longer pass
+    life?: number
+}
+
 export type ScoreEntry = {
     userId: ServiceUserId
     value: string
@@ -52,3 +64,123 @@ export type LevelOptionEntry = {
     index: number
     value: number
 }
+
+export type AutoExit = 'off' | 'pass' | 'fullCombo' | 'allPerfect'
+
+// --- Client commands (WebSocket messages from clients) ---
+
+export type AddChatMessageCommand = { type: 'addChatMessage'; message: ChatMessage }
+export type UpdateUserStatusCommand = { type: 'updateUserStatus'; status: UserStatus }
+export type UpdateStatusCommand = { type: 'updateStatus'; status: RoomStatus }
+export type UpdateLevelCommand = { type: 'updateLevel'; level: Sil }
+export type UpdateLevelOptionCommand = { type: 'updateLevelOption'; levelOption: LevelOptionEntry }
+export type AddSuggestionCommand = { type: 'addSuggestion'; level: Sil }
+export type ClearSuggestionsCommand = { type: 'clearSuggestions' }
+export type UpdateIsSuggestionsLockedCommand = { type: 'updateIsSuggestionsLocked'; isSuggestionsLocked: boolean }
+export type RemoveSuggestionCommand = { type: 'removeSuggestion'; suggestion: Suggestion }
+export type SwapSuggestionsCommand = { type: 'swapSuggestions'; suggestionA: Suggestion; suggestionB: Suggestion }
+// Server extension: one vote per user, voting again moves the vote
+export type VoteSuggestionCommand = { type: 'voteSuggestion'; suggestion: Suggestion }
+export type UpdateAutoExitCommand = { type: 'updateAutoExit'; autoExit: AutoExit }
+export type UpdateMasterCommand = { type: 'updateMaster'; master: ServiceUserId }
+export type UpdateLeadCommand = { type: 'updateLead'; lead: ServiceUserId }
+export type ResetScoreboardCommand = { type: 'resetScoreboard' }
+export type StartGameplayCommand = { type: 'startGameplay' }
+export type FinishGameplayCommand = { type: 'finishGameplay'; result: GameplayResult }
+// Server extensions: live progress for autoExit, and giving up on the current round
+export type UpdateProgressCommand = { type: 'updateProgress'; progress: GameplayProgress }
+export type ForfeitCommand = { type: 'forfeit' }
+export type UpdateOptionValuesCommand = { type: 'updateOptionValues'; optionValues: string }
+export type ReportUserCommand = { type: 'reportUser'; userId: ServiceUserId; optionValues: string }
+// Master-only moderation. removeUser is the Sonolus kick command, the others are server extensions.
+export type RemoveUserCommand = { type: 'removeUser'; userId: ServiceUserId }
+export type BanUserCommand = { type: 'banUser'; userId: ServiceUserId }
+export type MuteUserCommand = { type: 'muteUser'; userId: ServiceUserId }
+export type UnmuteUserCommand = { type: 'unmuteUser'; userId: ServiceUserId }
+// Team mode server extensions (master only). team is 0-based.
+export type AssignTeamCommand = { type: 'assignTeam'; userId: ServiceUserId; team: number }
+export type BalanceTeamsCommand = { type: 'balanceTeams' }
+
+export type ClientCommand =
+    | AddChatMessageCommand
+    | UpdateUserStatusCommand
+    | UpdateStatusCommand
+    | UpdateLevelCommand
+    | UpdateLevelOptionCommand
+    | AddSuggestionCommand
+    | ClearSuggestionsCommand
+    | UpdateIsSuggestionsLockedCommand
+    | RemoveSuggestionCommand
+    | SwapSuggestionsCommand
+    | VoteSuggestionCommand
+    | UpdateAutoExitCommand
+    | UpdateMasterCommand
+    | UpdateLeadCommand
+    | ResetScoreboardCommand
+    | StartGameplayCommand
+    | FinishGameplayCommand
+    | UpdateProgressCommand
+    | ForfeitCommand
+    | UpdateOptionValuesCommand
+    | ReportUserCommand
+    | RemoveUserCommand
+    | BanUserCommand
+    | MuteUserCommand
+    | UnmuteUserCommand
+    | AssignTeamCommand
+    | BalanceTeamsCommand
+
+// --- Server events (WebSocket messages to clients) ---
+
+export type RoomUserAuth = {
+    authentication: string
+    signature: string
+}
+
+export type UpdateEvent = {
+    type: 'update'
+    allowOtherServers: boolean
+    reportUserOptions: ServerForm[]
+    title: string
+    status: RoomStatus
+    master: ServiceUserId | null
+    lead: ServiceUserId | null
+    options: ServerForm[]
+    optionValues: string
+    level: Sil | null
+    levelOptions: LevelOptionEntry[]
+    autoExit: AutoExit
+    isSuggestionsLocked: boolean
+    suggestions: Suggestion[]
+    scoreboardDescription: string
+    scoreboardSections: ScoreboardSection[]
+    results: ResultEntry[]
+    users: RoomUserAuth[]
+    userStatuses: UserStatusEntry[]
+}
+
+export type ServerEvent =
+    | UpdateEvent
+    | { type: 'addUser'; user: RoomUserAuth }
+    | { type: 'removeUser'; user: RoomUserAuth }
+    | { type: 'updateMaster'; master: ServiceUserId | null }
+    | { type: 'updateLead'; lead: ServiceUserId | null }
+    | { type: 'addChatMessage'; message: ChatMessage }
+    | { type: 'updateUserStatus'; userStatus: UserStatusEntry }
+    | { type: 'updateStatus'; status: RoomStatus }
+    | { type: 'startRound'; state: string; seed: number }
+    | { type: 'updateLevel'; level: Sil | null }
+    | { type: 'updateLevelOption'; levelOption: LevelOptionEntry }
+    | { type: 'updateSuggestions'; suggestions: Suggestion[] }
+    | { type: 'swapSuggestions'; suggestionA: Suggestion; suggestionB: Suggestion }
+    | { type: 'clearSuggestions' }
+    | { type: 'updateIsSuggestionsLocked'; isSuggestionsLocked: boolean }
+    | { type: 'updateAutoExit'; autoExit: AutoExit }
+    | { type: 'updateScoreboardSections'; scoreboardSections: ScoreboardSection[] }
+    | { type: 'addResult'; result: ResultEntry }
+    | { type: 'updateOptionValues'; optionValues: string }
+    | { type: 'updateScoreboardDescription'; scoreboardDescription: string }
+    // Not part of the Sonolus protocol: tells a client why its command was refused
+    | { type: 'error'; command: string | null; message: string }
+    // Not part of the Sonolus protocol: another player's live progress during a round
+    | { type: 'updateProgress'; userId: ServiceUserId; progress: GameplayProgress }